@@ -10,9 +10,13 @@ from dotenv import load_dotenv
 load_dotenv()
 
 app = Flask(__name__)
+
+# Allowed frontend origins, comma-separated (e.g. for staging deployments)
+cors_origins = os.getenv('CORS_ORIGINS', 'http://localhost:8080,http://127.0.0.1:8080').split(',')
+
 CORS(app, resources={
     r"/api/*": {
-        "origins": ["http://localhost:8080", "http://127.0.0.1:8080"],
+        "origins": [origin.strip() for origin in cors_origins if origin.strip()],
         "methods": ["GET", "POST", "OPTIONS"],
         "allow_headers": ["Content-Type"]
     }
@@ -37,6 +41,80 @@ def load_model():
 if os.path.exists(model_path):
     load_model()
 
+# Inputs the model one-hot encodes into one column per category
+CATEGORICAL_FEATURES = ['neighborhood', 'propertyType']
+
+# Share of per-tree predictions the interval covers, and the relative
+# interval widths (of the prediction) below which confidence is high/medium
+INTERVAL_LEVEL = 0.8
+CONFIDENCE_WIDTHS = [("high", 0.3), ("medium", 0.6)]
+
+def encode_input(input_data):
+    encoded = pipeline.named_steps['preprocessor'].transform(input_data)
+    return encoded.toarray() if hasattr(encoded, 'toarray') else encoded
+
+def explain_prediction(encoded):
+    """Tree-path attributions for a single row: every split along each tree's
+    decision path moves the prediction from the training mean (the baseline)
+    towards the leaf value, and that move is credited to the split's feature.
+    Averaged over the forest, baseline + contributions equals the prediction."""
+    preprocessor = pipeline.named_steps['preprocessor']
+    forest = pipeline.named_steps['regressor']
+
+    # Map encoded columns (e.g. cat__neighborhood_Kew) back to input fields
+    parents = []
+    for name in preprocessor.get_feature_names_out():
+        name = name.split('__', 1)[-1]
+        parents.append(next((f for f in CATEGORICAL_FEATURES if name.startswith(f + '_')), name))
+
+    baseline = 0.0
+    contributions = {}
+    for tree in forest.estimators_:
+        path = tree.decision_path(encoded).indices
+        values = tree.tree_.value[path, 0, 0]
+        baseline += values[0]
+        for node, before, after in zip(path[:-1], values[:-1], values[1:]):
+            feature = parents[tree.tree_.feature[node]]
+            contributions[feature] = contributions.get(feature, 0.0) + (after - before)
+
+    trees = len(forest.estimators_)
+    return baseline / trees, [
+        {"feature": feature, "contribution": float(total / trees)}
+        for feature, total in contributions.items()
+    ]
+
+def prediction_interval(encoded, prediction):
+    """The central INTERVAL_LEVEL share of the individual trees' predictions.
+    Trees disagree most where the training data has few similar sales, so a
+    wide interval relative to the prediction means low confidence."""
+    forest = pipeline.named_steps['regressor']
+    tree_predictions = [tree.predict(encoded)[0] for tree in forest.estimators_]
+    tail = (1 - INTERVAL_LEVEL) / 2 * 100
+    low, high = np.percentile(tree_predictions, [tail, 100 - tail])
+
+    relative_width = (high - low) / prediction if prediction > 0 else float('inf')
+    confidence = next((level for level, width in CONFIDENCE_WIDTHS if relative_width <= width), "low")
+
+    return {"low": float(low), "high": float(high), "level": INTERVAL_LEVEL}, confidence
+
+def to_input_frame(rows):
+    """Input DataFrame matching the training structure, one row per request.
+    squareFootage and lotSize arrive in square metres (BuildingArea and
+    Landsize in the training data); the frontend converts before sending."""
+    return pd.DataFrame([{
+        'bedrooms': data.get('bedrooms', 0),
+        'bathrooms': data.get('bathrooms', 0),
+        'squareFootage': data.get('squareFootage', 0),
+        'yearBuilt': data.get('yearBuilt', 0),
+        'neighborhood': data.get('neighborhood', ''),
+        'lotSize': data.get('lotSize', 0),
+        'garage': data.get('garage', 0),
+        'propertyType': data.get('propertyType', 'h'),  # Default to house
+        'basement': 1 if data.get('basement', False) else 0,
+        'centralAir': 1 if data.get('centralAir', False) else 0,
+        'kitchenQuality': data.get('kitchenQuality', 1)
+    } for data in rows])
+
 @app.route('/api/predict', methods=['POST', 'OPTIONS'])
 def predict():
     if request.method == 'OPTIONS':
@@ -55,26 +133,20 @@ def predict():
 
         print("Received data:", data)
 
-        # Create input DataFrame matching training structure
-        input_data = pd.DataFrame([{
-            'bedrooms': data.get('bedrooms', 0),
-            'bathrooms': data.get('bathrooms', 0),
-            'squareFootage': data.get('squareFootage', 0),
-            'yearBuilt': data.get('yearBuilt', 0),
-            'neighborhood': data.get('neighborhood', ''),
-            'lotSize': data.get('lotSize', 0),
-            'garage': data.get('garage', 0),
-            'propertyType': data.get('propertyType', 'h'),  # Default to house
-            'basement': 1 if data.get('basement', False) else 0,
-            'centralAir': 1 if data.get('centralAir', False) else 0,
-            'kitchenQuality': data.get('kitchenQuality', 1)
-        }])
+        input_data = to_input_frame([data])
 
         # Make prediction using the full pipeline
         prediction = pipeline.predict(input_data)[0]
-        
+        encoded = encode_input(input_data)
+        baseline, contributions = explain_prediction(encoded)
+        interval, confidence = prediction_interval(encoded, prediction)
+
         return _corsify_actual_response(jsonify({
             "prediction": float(prediction),
+            "baseline": float(baseline),
+            "contributions": contributions,
+            "interval": interval,
+            "confidence": confidence,
             "status": "success"
         }))
         
@@ -85,6 +157,42 @@ def predict():
             "status": "error"
         }), 400
 
+# Upper bound on rows per batch request, to keep a single request quick
+MAX_BATCH_ROWS = 200
+
+@app.route('/api/predict/batch', methods=['POST', 'OPTIONS'])
+def predict_batch():
+    if request.method == 'OPTIONS':
+        return _build_cors_preflight_response()
+
+    global pipeline
+
+    if pipeline is None:
+        if not load_model():
+            return jsonify({"error": "Model not available. Please train the model first."}), 503
+
+    try:
+        data = request.get_json()
+        rows = data.get('rows') if isinstance(data, dict) else None
+        if not isinstance(rows, list) or not rows:
+            return jsonify({"error": "No rows received"}), 400
+        if len(rows) > MAX_BATCH_ROWS:
+            return jsonify({"error": f"At most {MAX_BATCH_ROWS} rows per request"}), 400
+
+        predictions = pipeline.predict(to_input_frame(rows))
+
+        return _corsify_actual_response(jsonify({
+            "predictions": [float(prediction) for prediction in predictions],
+            "status": "success"
+        }))
+
+    except Exception as e:
+        print(f"Batch prediction error: {str(e)}")
+        return jsonify({
+            "error": str(e),
+            "status": "error"
+        }), 400
+
 @app.route('/api/neighborhoods', methods=['GET'])
 def get_neighborhoods():
     try:
@@ -113,6 +221,57 @@ def get_neighborhoods():
             "message": str(e)
         }), 500
 
+@app.route('/api/property-types', methods=['GET'])
+def get_property_types():
+    try:
+        if not os.path.exists('models/property_types.pkl'):
+            return jsonify({
+                "status": "error",
+                "message": "Property type data not found"
+            }), 404
+
+        with open('models/property_types.pkl', 'rb') as f:
+            property_types = pickle.load(f)
+
+        # Convert numpy array to list if needed
+        if hasattr(property_types, 'tolist'):
+            property_types = property_types.tolist()
+
+        return jsonify({
+            "status": "success",
+            "propertyTypes": property_types
+        })
+    except Exception as e:
+        return jsonify({
+            "status": "error",
+            "message": str(e)
+        }), 500
+
+@app.route('/api/model/feature-importances', methods=['GET'])
+def get_feature_importances():
+    try:
+        if not os.path.exists('models/feature_importances.csv'):
+            return jsonify({
+                "status": "error",
+                "message": "Feature importance data not found"
+            }), 404
+
+        # One row per encoded model column; the frontend groups one-hot columns
+        importances = pd.read_csv('models/feature_importances.csv')
+
+        return jsonify({
+            "status": "success",
+            "featureImportances": [
+                {"feature": str(row.feature), "importance": float(row.importance)}
+                for row in importances.itertuples(index=False)
+            ]
+        })
+    except Exception as e:
+        return jsonify({
+            "status": "error",
+            "message": str(e)
+        }), 500
+
 def _build_cors_preflight_response():
     response = jsonify({"success": True})
     response.headers.add("Access-Control-Allow-Origin", "*")
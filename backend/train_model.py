@@ -101,5 +101,16 @@ def train_model():
     with open('models/property_types.pkl', 'wb') as f:
         pickle.dump(property_types, f)
 
+    # Save feature importances, one row per encoded column (e.g. neighborhood_Kew)
+    feature_names = [
+        name.split('__', 1)[-1]
+        for name in pipeline.named_steps['preprocessor'].get_feature_names_out()
+    ]
+    importances = pd.DataFrame({
+        'feature': feature_names,
+        'importance': pipeline.named_steps['regressor'].feature_importances_
+    }).sort_values('importance', ascending=False)
+    importances.to_csv('models/feature_importances.csv', index=False)
+
 if __name__ == '__main__':
     train_model()
\ No newline at end of file
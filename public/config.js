@@ -0,0 +1,6 @@
+// Runtime configuration, loaded before the app bundle.
+// Deployments can replace this file to point the frontend at a different
+// backend without rebuilding. Leave apiUrl empty to use the same origin.
+window.__APP_CONFIG__ = {
+  apiUrl: ""
+};
@@ -0,0 +1,204 @@
+// Fits the frontend fallback estimator on the Melbourne housing dataset and
+// writes the coefficients to src/data/fallbackModel.ts.
+//
+// Run after the dataset changes:
+//   npm run generate:fallback-model
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), "..");
+const DATASET_PATH = resolve(root, "backend/data/melb_data.csv");
+const OUTPUT_PATH = resolve(root, "src/data/fallbackModel.ts");
+
+// Dataset columns for each numeric model feature, named as in train_model.py
+const NUMERIC_FEATURES = {
+  bedrooms: "Rooms",
+  bathrooms: "Bathroom",
+  buildingArea: "BuildingArea",
+  landsize: "Landsize",
+  yearBuilt: "YearBuilt",
+  garage: "Car",
+};
+
+// Property types are fitted as offsets from this one
+const REFERENCE_PROPERTY_TYPE = "h";
+
+// Rows outside these bounds are data-entry errors or extreme outliers
+const FIT_BOUNDS = {
+  BuildingArea: [20, 1000],
+  Landsize: [0, 5000],
+  YearBuilt: [1800, 2030],
+};
+
+function parseCsv(text) {
+  const [header, ...lines] = text.trim().split(/\r?\n/);
+  const columns = header.split(",");
+  return lines.map((line) => {
+    const values = line.split(",");
+    return Object.fromEntries(columns.map((column, i) => [column, values[i] ?? ""]));
+  });
+}
+
+function toNumber(value) {
+  if (value === "") return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+function median(values) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Solve A x = b by Gaussian elimination with partial pivoting
+function solve(A, b) {
+  const n = b.length;
+  const m = A.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+}
+
+// Ordinary least squares with an intercept, via the normal equations
+function fitLinear(rows, targets) {
+  const design = rows.map((row) => [1, ...row]);
+  const size = design[0].length;
+  const xtx = Array.from({ length: size }, () => new Array(size).fill(0));
+  const xty = new Array(size).fill(0);
+  design.forEach((row, r) => {
+    for (let i = 0; i < size; i++) {
+      xty[i] += row[i] * targets[r];
+      for (let j = 0; j < size; j++) xtx[i][j] += row[i] * row[j];
+    }
+  });
+  return solve(xtx, xty);
+}
+
+function round(value, digits = 2) {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+const records = parseCsv(readFileSync(DATASET_PATH, "utf8"));
+const priced = records.filter((record) => toNumber(record.Price) !== null);
+
+// Median sale price per suburb: the baseline for a typical house there
+const pricesBySuburb = new Map();
+for (const record of priced) {
+  const prices = pricesBySuburb.get(record.Suburb) ?? [];
+  prices.push(toNumber(record.Price));
+  pricesBySuburb.set(record.Suburb, prices);
+}
+const suburbMedianPrices = Object.fromEntries(
+  [...pricesBySuburb.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([suburb, prices]) => [suburb, Math.round(median(prices))])
+);
+const overallMedianPrice = Math.round(median(priced.map((record) => toNumber(record.Price))));
+
+// Rows with every numeric feature present and within bounds
+const complete = priced.filter((record) =>
+  Object.values(NUMERIC_FEATURES).every((column) => {
+    const value = toNumber(record[column]);
+    if (value === null) return false;
+    const bounds = FIT_BOUNDS[column];
+    return !bounds || (value >= bounds[0] && value <= bounds[1]);
+  })
+);
+
+const featureNames = Object.keys(NUMERIC_FEATURES);
+const featureMedians = Object.fromEntries(
+  featureNames.map((name) => [name, median(complete.map((record) => toNumber(record[NUMERIC_FEATURES[name]])))])
+);
+
+const propertyTypes = [...new Set(complete.map((record) => record.Type))]
+  .filter((type) => type !== REFERENCE_PROPERTY_TYPE)
+  .sort();
+
+// Fit the log of the price relative to the suburb median on features centred
+// at the dataset medians plus property type indicators, so a median house
+// prices at its suburb median. On log price each feature scales the price
+// rather than shifting it, so a small modern unit is not pushed below zero by
+// terms fitted mostly on houses.
+const inputs = complete.map((record) => [
+  ...featureNames.map((name) => toNumber(record[NUMERIC_FEATURES[name]]) - featureMedians[name]),
+  ...propertyTypes.map((type) => (record.Type === type ? 1 : 0)),
+]);
+const targets = complete.map((record) => Math.log(toNumber(record.Price) / suburbMedianPrices[record.Suburb]));
+const [intercept, ...weights] = fitLinear(inputs, targets);
+const coefficients = Object.fromEntries(featureNames.map((name, i) => [name, round(weights[i], 6)]));
+const propertyTypeEffects = Object.fromEntries([
+  [REFERENCE_PROPERTY_TYPE, 0],
+  ...propertyTypes.map((type, i) => [type, round(weights[featureNames.length + i], 6)]),
+]);
+
+// Typical relative error of the fit, used as the fallback's uncertainty band
+const relativeErrors = complete.map((record, r) => {
+  const predicted = suburbMedianPrices[record.Suburb] *
+    Math.exp(intercept + inputs[r].reduce((sum, value, i) => sum + value * weights[i], 0));
+  const actual = toNumber(record.Price);
+  return Math.abs(predicted - actual) / actual;
+});
+const typicalRelativeError = round(median(relativeErrors), 3);
+
+const model = {
+  currency: "AUD",
+  trainingRows: complete.length,
+  overallMedianPrice,
+  intercept: round(intercept, 6),
+  featureMedians,
+  coefficients,
+  propertyTypeEffects,
+  typicalRelativeError,
+  suburbMedianPrices,
+};
+
+const output = `// Generated by scripts/generate-fallback-model.mjs from backend/data/melb_data.csv.
+// Do not edit by hand; rerun \`npm run generate:fallback-model\` when the dataset changes.
+
+export interface FallbackModel {
+  // Currency of every price below
+  currency: string;
+  // Rows with complete numeric features used for the linear fit
+  trainingRows: number;
+  overallMedianPrice: number;
+  // Log of the price relative to the suburb median, for a median property
+  intercept: number;
+  // Features are centred on these medians; areas are in square metres
+  featureMedians: Record<FallbackFeature, number>;
+  // Change in log price per unit above the median
+  coefficients: Record<FallbackFeature, number>;
+  // Log price offset by property type (h=house, u=unit, t=townhouse), relative to a house
+  propertyTypeEffects: Record<string, number>;
+  // Median absolute error of the fit, relative to the sale price
+  typicalRelativeError: number;
+  suburbMedianPrices: Record<string, number>;
+}
+
+export type FallbackFeature = ${featureNames.map((name) => `"${name}"`).join(" | ")};
+
+export const fallbackModel: FallbackModel = ${JSON.stringify(model, null, 2)};
+`;
+
+writeFileSync(OUTPUT_PATH, output);
+console.log(`Wrote ${OUTPUT_PATH} (${complete.length} training rows, typical error ${(typicalRelativeError * 100).toFixed(1)}%)`);
+console.log("Coefficients:", coefficients);
+console.log("Property type effects:", propertyTypeEffects);
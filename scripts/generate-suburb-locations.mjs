@@ -0,0 +1,66 @@
+// Extracts each suburb's region and council area from the Melbourne housing
+// dataset and writes them to src/data/suburbLocations.ts, for grouping the
+// neighborhood picker.
+//
+// Run after the dataset changes:
+//   npm run generate:suburb-locations
+
+import { readFileSync, writeFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), "..");
+const DATASET_PATH = resolve(root, "backend/data/melb_data.csv");
+const OUTPUT_PATH = resolve(root, "src/data/suburbLocations.ts");
+
+function parseCsv(text) {
+  const [header, ...lines] = text.trim().split(/\r?\n/);
+  const columns = header.split(",");
+  return lines.map((line) => {
+    const values = line.split(",");
+    return Object.fromEntries(columns.map((column, i) => [column, values[i] ?? ""]));
+  });
+}
+
+// The value seen most often for a suburb, ignoring blanks
+function mostCommon(counts) {
+  const [best] = [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+  return best ? best[0] : null;
+}
+
+const rows = parseCsv(readFileSync(DATASET_PATH, "utf8"));
+
+const tallies = new Map();
+for (const row of rows) {
+  if (!row.Suburb) continue;
+  if (!tallies.has(row.Suburb)) {
+    tallies.set(row.Suburb, { region: new Map(), councilArea: new Map() });
+  }
+  const tally = tallies.get(row.Suburb);
+  for (const [key, column] of [["region", "Regionname"], ["councilArea", "CouncilArea"]]) {
+    const value = row[column].trim();
+    if (value) tally[key].set(value, (tally[key].get(value) ?? 0) + 1);
+  }
+}
+
+const locations = Object.fromEntries(
+  [...tallies.keys()].sort().map((suburb) => {
+    const tally = tallies.get(suburb);
+    return [suburb, { region: mostCommon(tally.region), councilArea: mostCommon(tally.councilArea) }];
+  })
+);
+
+const output = `// Generated by scripts/generate-suburb-locations.mjs from backend/data/melb_data.csv.
+// Do not edit by hand; rerun \`npm run generate:suburb-locations\` when the dataset changes.
+
+export interface SuburbLocation {
+  region: string;
+  // Missing for suburbs whose sales never recorded one
+  councilArea: string | null;
+}
+
+export const suburbLocations: Record<string, SuburbLocation> = ${JSON.stringify(locations, null, 2)};
+`;
+
+writeFileSync(OUTPUT_PATH, output);
+console.log(`Wrote ${OUTPUT_PATH} (${Object.keys(locations).length} suburbs)`);
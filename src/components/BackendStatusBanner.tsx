@@ -0,0 +1,49 @@
+import React from 'react';
+import { ApiFailure } from '../utils/api';
+import { describeApiFailure } from '../utils/apiMessages';
+
+interface BackendStatusBannerProps {
+  isChecking: boolean;
+  isModelTrained: boolean | null;
+  failure: ApiFailure | null;
+}
+
+const bannerStyles = {
+  info: "bg-blue-50 border-blue-500 text-blue-700",
+  warning: "bg-yellow-50 border-yellow-500 text-yellow-700",
+  error: "bg-red-50 border-red-500 text-red-700",
+};
+
+const Banner: React.FC<{ tone: keyof typeof bannerStyles; title: string; children?: React.ReactNode }> = ({ tone, title, children }) => (
+  <div className={`my-4 p-4 border-l-4 ${bannerStyles[tone]}`} role={tone === 'info' ? 'status' : 'alert'}>
+    <p className="font-medium">{title}</p>
+    {children && <p className="text-sm">{children}</p>}
+  </div>
+);
+
+const BackendStatusBanner: React.FC<BackendStatusBannerProps> = ({ isChecking, isModelTrained, failure }) => {
+  if (isChecking) {
+    return <Banner tone="info" title="Checking backend status..." />;
+  }
+
+  if (failure) {
+    const message = describeApiFailure(failure);
+    return (
+      <Banner tone={message.severity} title={message.title}>
+        {message.description} Using simplified frontend prediction model.
+      </Banner>
+    );
+  }
+
+  if (isModelTrained === false) {
+    return (
+      <Banner tone="warning" title="Backend Model Unavailable">
+        The server is running but no trained model is loaded. Run "python train_model.py" in the backend folder. Using simplified frontend prediction model.
+      </Banner>
+    );
+  }
+
+  return null;
+};
+
+export default BackendStatusBanner;
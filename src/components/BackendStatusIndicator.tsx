@@ -0,0 +1,63 @@
+import React, { useEffect, useState } from 'react';
+import { formatDistanceToNowStrict } from 'date-fns';
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { BackendConnection, useBackendHealth } from '@/hooks/use-model-status';
+import { describeApiFailure } from '../utils/apiMessages';
+
+const connectionStyles: Record<BackendConnection, { label: string; dot: string }> = {
+  checking: { label: "Checking", dot: "bg-blue-400 animate-pulse" },
+  connected: { label: "Connected", dot: "bg-green-500" },
+  degraded: { label: "Degraded", dot: "bg-yellow-500" },
+  offline: { label: "Offline", dot: "bg-red-500" },
+};
+
+const BackendStatusIndicator: React.FC = () => {
+  const health = useBackendHealth();
+  const [, setNow] = useState(Date.now());
+
+  // Keep the "checked ... ago" text current between polls
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 5000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const style = connectionStyles[health.connection];
+  const lastChecked = health.lastCheckedAt
+    ? `${formatDistanceToNowStrict(health.lastCheckedAt)} ago`
+    : "not yet";
+
+  let detail = "Waiting for the first status check";
+  if (health.failure) {
+    detail = describeApiFailure(health.failure).description;
+  } else if (health.connection === "degraded") {
+    detail = health.isModelReady
+      ? "The backend is responding slowly."
+      : "The backend is running but no trained model is loaded.";
+  } else if (health.connection === "connected") {
+    detail = "Predictions use the trained machine learning model.";
+  }
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div
+          className="inline-flex items-center gap-2 rounded-full border bg-white/80 px-3 py-1 text-xs text-muted-foreground"
+          role="status"
+          aria-live="polite"
+        >
+          <span className={`h-2 w-2 rounded-full ${style.dot}`} />
+          <span className="font-medium text-foreground">{style.label}</span>
+          <span>· checked {lastChecked}</span>
+          {health.latencyMs !== null && (
+            <span className="font-mono">· {health.latencyMs} ms</span>
+          )}
+        </div>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-xs">
+        {detail}
+      </TooltipContent>
+    </Tooltip>
+  );
+};
+
+export default BackendStatusIndicator;
@@ -0,0 +1,119 @@
+import React, { useRef } from 'react';
+import { 
+  Card, 
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle 
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/components/ui/use-toast";
+import { useBrowserModel, useClearBrowserModel, useTrainBrowserModel } from '@/hooks/use-browser-model';
+import { usePriceFormatter } from '@/hooks/use-preferences';
+
+const BrowserModelPanel: React.FC = () => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const { formatPrice } = usePriceFormatter();
+  const { data: model, isPending } = useBrowserModel();
+  const training = useTrainBrowserModel();
+  const clearing = useClearBrowserModel();
+
+  const train = (file?: File) => {
+    training.mutate(file, {
+      onSuccess: (params) => {
+        toast({
+          title: "Offline Model Trained",
+          description: `R² ${params.metrics.r2.toFixed(2)} on ${params.metrics.testRows} held-out sales`,
+        });
+      },
+      onError: (error) => {
+        toast({
+          title: "Training Failed",
+          description: error.message,
+          variant: "destructive",
+        });
+      }
+    });
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (file) train(file);
+  };
+
+  const isBusy = training.isPending || clearing.isPending;
+
+  return (
+    <Card className="glass-card w-full mt-8 animate-fade-in">
+      <CardHeader>
+        <CardTitle className="text-2xl">Offline Model</CardTitle>
+        <CardDescription>
+          Train a regression model in your browser for predictions without the backend
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {training.progress ? (
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span>{training.progress.stage}</span>
+              <span className="font-mono text-muted-foreground">
+                {Math.round(training.progress.fraction * 100)}%
+              </span>
+            </div>
+            <Progress value={training.progress.fraction * 100} />
+          </div>
+        ) : model ? (
+          <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+            <dt className="text-muted-foreground">Trained</dt>
+            <dd>{new Date(model.trainedAt).toLocaleString()}</dd>
+            <dt className="text-muted-foreground">Data</dt>
+            <dd className="truncate">{model.source === 'bundled' ? 'Melbourne dataset' : model.source}</dd>
+            <dt className="text-muted-foreground">RMSE</dt>
+            <dd className="font-mono">{formatPrice(model.metrics.rmse)}</dd>
+            <dt className="text-muted-foreground">R²</dt>
+            <dd className="font-mono">{model.metrics.r2.toFixed(3)}</dd>
+            <dt className="text-muted-foreground">Rows</dt>
+            <dd className="font-mono">{model.metrics.trainRows} train / {model.metrics.testRows} test</dd>
+          </dl>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            {isPending
+              ? "Loading saved model..."
+              : "No offline model yet. Fallback predictions use a simplified calibrated formula."}
+          </p>
+        )}
+
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" onClick={() => train()} disabled={isBusy}>
+            {model ? "Retrain" : "Train on bundled data"}
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isBusy}>
+            Upload CSV
+          </Button>
+          {model && (
+            <Button size="sm" variant="ghost" onClick={() => clearing.mutate()} disabled={isBusy}>
+              Remove
+            </Button>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Uploaded files need the Melbourne dataset columns (Price, Rooms, Bathroom, Suburb, and optionally
+          Landsize, BuildingArea, YearBuilt, Car, Type). Metrics are measured on a 20% held-out split.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BrowserModelPanel;
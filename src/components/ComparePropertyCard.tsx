@@ -0,0 +1,64 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import HouseForm from './HouseForm';
+import { HouseData } from '../data/modelData';
+import { PredictionOutcome, toastPredictionError, usePrediction } from '@/hooks/use-prediction';
+import { usePriceFormatter } from '@/hooks/use-preferences';
+import { Button } from "@/components/ui/button";
+
+interface ComparePropertyCardProps {
+  label: string;
+  defaultValues: HouseData;
+  onPredicted: (input: HouseData, outcome: PredictionOutcome) => void;
+  // Omitted while the comparison is at its minimum size
+  onRemove?: () => void;
+}
+
+// One property in the comparison, with its own form and prediction
+const ComparePropertyCard: React.FC<ComparePropertyCardProps> = ({ label, defaultValues, onPredicted, onRemove }) => {
+  const prediction = usePrediction();
+  const { formatPrice } = usePriceFormatter();
+
+  const handleSubmit = (data: HouseData) => {
+    prediction.mutate(data, {
+      onSuccess: (outcome) => onPredicted(data, outcome),
+      onError: toastPredictionError,
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <HouseForm
+        title={label}
+        description="Predicted with the same model as the main estimate"
+        defaultValues={defaultValues}
+        onSubmit={handleSubmit}
+        isLoading={prediction.isPending}
+        submitLabel="Predict"
+        compact
+        headerActions={onRemove && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            aria-label={`Remove ${label}`}
+            onClick={onRemove}
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      />
+
+      {prediction.data && (
+        <div className="rounded-lg border bg-white/60 px-4 py-3 text-center">
+          <div className="text-2xl font-bold tracking-tight">{formatPrice(prediction.data.price)}</div>
+          <div className="text-xs text-muted-foreground">
+            {prediction.data.source === 'API' ? "ML model" : "Fallback estimate"}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComparePropertyCard;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { Settings2 } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { usePreferences } from '@/hooks/use-preferences';
+import { UnitSystem, unitSystemLabels } from '../utils/units';
+import { MODEL_CURRENCY, supportedCurrencies, supportedLocales } from '../utils/currency';
+
+const DisplaySettings: React.FC = () => {
+  const { unitSystem, currency, locale, setPreferences } = usePreferences();
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="rounded-full h-7 text-xs">
+          <Settings2 className="h-3.5 w-3.5" />
+          Display
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-4">
+        <div className="space-y-2">
+          <Label className="input-label">Units</Label>
+          <ToggleGroup
+            type="single"
+            variant="outline"
+            size="sm"
+            value={unitSystem}
+            onValueChange={(value) => value && setPreferences({ unitSystem: value as UnitSystem })}
+            className="justify-start"
+          >
+            {(Object.keys(unitSystemLabels) as UnitSystem[]).map((system) => (
+              <ToggleGroupItem key={system} value={system} className="text-xs">
+                {unitSystemLabels[system]}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="display-currency" className="input-label">Currency</Label>
+          <Select value={currency} onValueChange={(value) => setPreferences({ currency: value })}>
+            <SelectTrigger id="display-currency" className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {supportedCurrencies.map((code) => (
+                <SelectItem key={code} value={code}>
+                  {code}{code === MODEL_CURRENCY ? ' (model currency)' : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="display-locale" className="input-label">Number format</Label>
+          <Select value={locale} onValueChange={(value) => setPreferences({ locale: value })}>
+            <SelectTrigger id="display-locale" className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(supportedLocales).map(([code, label]) => (
+                <SelectItem key={code} value={code}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Prices are predicted in {MODEL_CURRENCY} and converted using a local rate table.
+        </p>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default DisplaySettings;
@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { UseFormReturn } from 'react-hook-form';
+import { formatDistanceToNow } from 'date-fns';
+import { FileClock, RotateCcw, Save, Trash2 } from 'lucide-react';
+import { HouseData, defaultHouseData } from '../data/modelData';
+import {
+  Draft,
+  DraftValues,
+  NamedDraft,
+  clearAutosave,
+  deleteNamedDraft,
+  loadAutosave,
+  loadNamedDrafts,
+  sameDraftValues,
+  saveAutosave,
+  saveNamedDraft
+} from '../utils/drafts';
+import { useDraftAutosave } from '@/hooks/use-draft-autosave';
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+
+interface DraftControlsProps {
+  form: UseFormReturn<HouseData>;
+}
+
+// Autosave, restore, named drafts and reset for the estimate form.
+// Buttons are type="button" because this renders inside the form.
+const DraftControls: React.FC<DraftControlsProps> = ({ form }) => {
+  useDraftAutosave(form);
+
+  // Offer the autosaved draft once, if it differs from what the form opened with
+  const [restoreOffer, setRestoreOffer] = useState<Draft | null>(() => {
+    const draft = loadAutosave();
+    return draft && !sameDraftValues(draft.values, form.getValues()) ? draft : null;
+  });
+  const [namedDrafts, setNamedDrafts] = useState<NamedDraft[]>(loadNamedDrafts);
+  const [draftName, setDraftName] = useState('');
+
+  const applyValues = (values: DraftValues) => {
+    form.reset({ ...defaultHouseData, ...values });
+    saveAutosave(form.getValues());
+    setRestoreOffer(null);
+  };
+
+  const handleDiscard = () => {
+    clearAutosave();
+    setRestoreOffer(null);
+  };
+
+  const handleReset = () => {
+    form.reset(defaultHouseData);
+    clearAutosave();
+    setRestoreOffer(null);
+  };
+
+  const handleSaveDraft = () => {
+    const name = draftName.trim();
+    if (!name) return;
+    setNamedDrafts(saveNamedDraft(name, form.getValues()));
+    setDraftName('');
+  };
+
+  return (
+    <div className="space-y-3">
+      {restoreOffer && (
+        <Alert>
+          <FileClock className="h-4 w-4" />
+          <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+            <span>
+              You have unsaved details from {formatDistanceToNow(restoreOffer.savedAt, { addSuffix: true })}.
+            </span>
+            <span className="flex gap-2">
+              <Button type="button" size="sm" onClick={() => applyValues(restoreOffer.values)}>
+                Restore
+              </Button>
+              <Button type="button" size="sm" variant="ghost" onClick={handleDiscard}>
+                Discard
+              </Button>
+            </span>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex flex-wrap justify-end gap-2">
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button type="button" variant="outline" size="sm">
+              <Save className="h-4 w-4 mr-2" />
+              Drafts{namedDrafts.length > 0 ? ` (${namedDrafts.length})` : ''}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-80 space-y-4">
+            <div className="flex gap-2">
+              <Input
+                value={draftName}
+                onChange={(e) => setDraftName(e.target.value)}
+                onKeyDown={(e) => {
+                  // Save on Enter
+                  if (e.key === 'Enter') {
+                    e.preventDefault();
+                    handleSaveDraft();
+                  }
+                }}
+                placeholder="Draft name"
+                aria-label="Draft name"
+                className="h-8"
+              />
+              <Button type="button" size="sm" onClick={handleSaveDraft} disabled={!draftName.trim()}>
+                Save
+              </Button>
+            </div>
+
+            {namedDrafts.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Save the current details under a name to come back to them later.
+              </p>
+            ) : (
+              <ul className="space-y-1 max-h-64 overflow-y-auto">
+                {namedDrafts.map((draft) => (
+                  <li key={draft.id} className="flex items-center gap-1">
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="flex-1 justify-between font-normal"
+                      onClick={() => applyValues(draft.values)}
+                    >
+                      <span className="truncate">{draft.name}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {formatDistanceToNow(draft.savedAt, { addSuffix: true })}
+                      </span>
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      aria-label={`Delete draft ${draft.name}`}
+                      onClick={() => setNamedDrafts(deleteNamedDraft(draft.id))}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </PopoverContent>
+        </Popover>
+
+        <Button type="button" variant="ghost" size="sm" onClick={handleReset}>
+          <RotateCcw className="h-4 w-4 mr-2" />
+          Reset to defaults
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default DraftControls;
@@ -1,23 +1,48 @@
-
-import React, { useEffect, useRef, useState } from 'react';
-import { 
-  Card, 
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ChevronDown } from 'lucide-react';
+import {
+  Card,
   CardContent,
   CardDescription,
   CardHeader,
-  CardTitle 
+  CardTitle
 } from "@/components/ui/card";
-import { featureImportances } from '../data/modelData';
-import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useFeatureImportances } from '@/hooks/use-feature-importances';
+import { describeApiFailure } from '../utils/apiMessages';
+import { isBackendUnavailable } from '../utils/api';
+import { staticFeatureImportances } from '../utils/featureImportance';
+import { cn } from '@/lib/utils';
+
+// How many one-hot categories (e.g. suburbs) the drill-down lists
+const TOP_CATEGORIES = 10;
 
 interface FeatureImportanceProps {
   isBackendAvailable?: boolean;
 }
 
-const FeatureImportance: React.FC<FeatureImportanceProps> = () => {
+const FeatureImportance: React.FC<FeatureImportanceProps> = ({ isBackendAvailable }) => {
+  const importances = useFeatureImportances();
   const barRefs = useRef<(HTMLDivElement | null)[]>([]);
   const [hoveredFeature, setHoveredFeature] = useState<string | null>(null);
-  
+  const [expandedFeature, setExpandedFeature] = useState<string | null>(null);
+  const { refetch } = importances;
+
+  // The static list is only a stand-in while the backend cannot be reached
+  const isIllustrative = importances.isError && isBackendUnavailable(importances.error.failure);
+  const features = useMemo(
+    () => importances.data ?? (isIllustrative ? staticFeatureImportances : []),
+    [importances.data, isIllustrative]
+  );
+
+  // Pick up the real values once the backend is back
+  useEffect(() => {
+    if (isBackendAvailable && importances.isError) refetch();
+  }, [isBackendAvailable, importances.isError, refetch]);
+
   useEffect(() => {
     // Set up intersection observer for animation
     const observer = new IntersectionObserver(
@@ -26,13 +51,13 @@ const FeatureImportance: React.FC<FeatureImportanceProps> = () => {
           if (entry.isIntersecting) {
             const target = entry.target as HTMLDivElement;
             const index = parseInt(target.dataset.index || "0", 10);
-            const importance = featureImportances[index].importance;
-            
+            const importance = Number(target.dataset.importance);
+
             // Animate the width based on importance
             setTimeout(() => {
               target.style.width = `${importance * 100}%`;
             }, 100 * index); // Stagger the animations
-            
+
             // Unobserve after animation
             observer.unobserve(target);
           }
@@ -40,54 +65,128 @@ const FeatureImportance: React.FC<FeatureImportanceProps> = () => {
       },
       { threshold: 0.1 }
     );
-    
-    // Observe all bar elements
-    barRefs.current.forEach((bar) => {
+
+    // Observe all bar elements, again whenever the values change
+    barRefs.current.slice(0, features.length).forEach((bar) => {
       if (bar) observer.observe(bar);
     });
-    
+
     return () => observer.disconnect();
-  }, []);
-  
+  }, [features]);
+
+  const renderBody = () => {
+    if (importances.isPending) {
+      return Array.from({ length: 6 }, (_, index) => (
+        <div key={index} className="space-y-2">
+          <Skeleton className="h-4 w-1/3" />
+          <Skeleton className="h-3 w-full" />
+        </div>
+      ));
+    }
+
+    if (importances.isError && !isIllustrative) {
+      const { title, description } = describeApiFailure(importances.error.failure);
+      return (
+        <p className="text-sm text-muted-foreground">
+          <span className="font-medium text-foreground">{title}.</span> {description}
+        </p>
+      );
+    }
+
+    return features.map((feature, index) => {
+      const hasBreakdown = feature.children.length > 0;
+      const isExpanded = expandedFeature === feature.feature;
+
+      return (
+        <Collapsible
+          key={feature.feature}
+          open={isExpanded}
+          onOpenChange={(open) => setExpandedFeature(open ? feature.feature : null)}
+        >
+          <div
+            className="space-y-2 transition-all-fast hover:translate-x-1"
+            onMouseEnter={() => setHoveredFeature(feature.feature)}
+            onMouseLeave={() => setHoveredFeature(null)}
+          >
+            <div className="flex justify-between items-center">
+              <span className={`text-sm font-medium ${hoveredFeature === feature.feature ? 'text-primary' : ''}`}>
+                {feature.displayName}
+              </span>
+              <span className="flex items-center gap-1">
+                {hasBreakdown && (
+                  <CollapsibleTrigger asChild>
+                    <Button variant="ghost" size="sm" className="h-6 px-2 text-xs text-muted-foreground">
+                      Top {Math.min(TOP_CATEGORIES, feature.children.length)}
+                      <ChevronDown className={cn("ml-1 h-3 w-3 transition-transform", isExpanded && "rotate-180")} />
+                    </Button>
+                  </CollapsibleTrigger>
+                )}
+                <span className="text-sm text-muted-foreground font-mono">
+                  {(feature.importance * 100).toFixed(0)}%
+                </span>
+              </span>
+            </div>
+            <div className="feature-bar">
+              <div
+                ref={(el) => (barRefs.current[index] = el)}
+                className={`feature-bar-fill ${hoveredFeature === feature.feature ? 'opacity-100' : 'opacity-80'}`}
+                style={{ width: "0%" }}
+                data-index={index}
+                data-importance={feature.importance}
+              />
+            </div>
+          </div>
+
+          {hasBreakdown && (
+            <CollapsibleContent>
+              <ul className="mt-3 space-y-1.5 border-l pl-4">
+                {feature.children.slice(0, TOP_CATEGORIES).map((child) => (
+                  <li key={child.feature} className="flex items-center gap-3 text-xs">
+                    <span className="w-32 truncate">{child.displayName}</span>
+                    <span className="h-1.5 flex-1 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+                      <span
+                        className="block h-full rounded-full bg-primary/70"
+                        style={{ width: `${(child.importance / feature.children[0].importance) * 100}%` }}
+                      />
+                    </span>
+                    <span className="w-12 text-right font-mono text-muted-foreground">
+                      {(child.importance * 100).toFixed(1)}%
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              {feature.children.length > TOP_CATEGORIES && (
+                <p className="mt-2 pl-4 text-xs text-muted-foreground">
+                  {feature.children.length - TOP_CATEGORIES} more share the remaining{' '}
+                  {(feature.children.slice(TOP_CATEGORIES).reduce((sum, child) => sum + child.importance, 0) * 100).toFixed(0)}%.
+                </p>
+              )}
+            </CollapsibleContent>
+          )}
+        </Collapsible>
+      );
+    });
+  };
+
   return (
     <Card className="glass-card w-full mt-8 animate-fade-in">
       <CardHeader>
-        <CardTitle className="text-2xl">Feature Importance</CardTitle>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-2xl">Feature Importance</CardTitle>
+          {isIllustrative && <Badge variant="outline">Illustrative</Badge>}
+        </div>
         <CardDescription>
           How different factors affect home price
         </CardDescription>
       </CardHeader>
       <CardContent>
         <div className="space-y-6">
-          {featureImportances.map((feature, index) => (
-            <div 
-              key={feature.feature} 
-              className="space-y-2 transition-all-fast hover:translate-x-1"
-              onMouseEnter={() => setHoveredFeature(feature.feature)}
-              onMouseLeave={() => setHoveredFeature(null)}
-            >
-              <div className="flex justify-between items-center">
-                <span className={`text-sm font-medium ${hoveredFeature === feature.feature ? 'text-primary' : ''}`}>
-                  {feature.displayName}
-                </span>
-                <span className="text-sm text-muted-foreground font-mono">
-                  {(feature.importance * 100).toFixed(0)}%
-                </span>
-              </div>
-              <div className="feature-bar">
-                <div
-                  ref={(el) => (barRefs.current[index] = el)}
-                  className={`feature-bar-fill ${hoveredFeature === feature.feature ? 'opacity-100' : 'opacity-80'}`}
-                  style={{ width: "0%" }}
-                  data-index={index}
-                />
-              </div>
-            </div>
-          ))}
-          
+          {renderBody()}
+
           <p className="text-sm text-muted-foreground mt-6">
-            These importance values show which features have the most impact on house price predictions
-            according to our machine learning model.
+            {isIllustrative
+              ? "The backend could not be reached, so these are illustrative values rather than the trained model's. They will update once it is back."
+              : "These importance values show which features have the most impact on house price predictions according to our machine learning model. Suburbs and property types are summed across their categories."}
           </p>
         </div>
       </CardContent>
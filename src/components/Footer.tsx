@@ -1,5 +1,6 @@
 
 import React from 'react';
+import { API_ENDPOINTS, buildApiUrl } from '@/utils/apiClient';
 
 const Footer: React.FC = () => {
   return (
@@ -9,7 +10,7 @@ const Footer: React.FC = () => {
         <p className="mt-2">© {new Date().getFullYear()} Cozy Quarters Predictor</p>
         <p className="mt-4 text-xs">
           <a 
-            href="http://localhost:5000/api/model/status" 
+            href={buildApiUrl(API_ENDPOINTS.modelStatus)} 
             target="_blank" 
             rel="noopener noreferrer"
             className="underline hover:text-primary transition-colors"
@@ -1,5 +1,17 @@
 
 import React from 'react';
+import { NavLink } from 'react-router-dom';
+import { cn } from '@/lib/utils';
+import { buttonVariants } from '@/components/ui/button';
+import BackendStatusIndicator from './BackendStatusIndicator';
+import DisplaySettings from './DisplaySettings';
+
+const navItems = [
+  { to: '/', label: "Estimate" },
+  { to: '/compare', label: "Compare" },
+  { to: '/batch', label: "Batch" },
+  { to: '/history', label: "History" },
+];
 
 const Header: React.FC = () => {
   return (
@@ -9,6 +21,22 @@ const Header: React.FC = () => {
       <p className="text-muted-foreground text-lg max-w-md text-center">
         Precise house price predictions powered by machine learning
       </p>
+      <div className="mt-4 flex flex-wrap items-center justify-center gap-2">
+        <BackendStatusIndicator />
+        <DisplaySettings />
+      </div>
+      <nav className="mt-4 flex gap-1">
+        {navItems.map(({ to, label }) => (
+          <NavLink
+            key={to}
+            to={to}
+            end
+            className={({ isActive }) => cn(buttonVariants({ variant: isActive ? 'secondary' : 'ghost', size: 'sm' }))}
+          >
+            {label}
+          </NavLink>
+        ))}
+      </nav>
     </header>
   );
 };
@@ -1,4 +1,6 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect, useRef } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
 import { 
   Card, 
   CardContent,
@@ -6,284 +8,448 @@ import {
   CardHeader,
   CardTitle 
 } from "@/components/ui/card";
-import { Label } from "@/components/ui/label";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
-import { HouseData, defaultHouseData } from '../data/modelData';
+import { Label } from "@/components/ui/label";
+import {
+  HouseData,
+  defaultHouseData,
+  houseDataLimits,
+  neighborhoods as defaultNeighborhoods,
+  propertyTypeLabels,
+  propertyTypes as defaultPropertyTypes
+} from '../data/modelData';
 import { useToast } from "@/components/ui/use-toast";
-import { fetchWithHandling } from '@/utils/api';
+import { useNeighborhoods } from '@/hooks/use-neighborhoods';
+import { usePropertyTypes } from '@/hooks/use-property-types';
+import { usePreferences } from '@/hooks/use-preferences';
+import { useLiveRepricing, validLiveValues } from '@/hooks/use-live-repricing';
+import {
+  floorAreaFromDisplay,
+  floorAreaInputs,
+  floorAreaToDisplay,
+  lotSizeFromDisplay,
+  lotSizeInputs,
+  lotSizeToDisplay
+} from '@/utils/units';
+import { describeApiFailure } from '@/utils/apiMessages';
+import { houseDataSchema } from '@/utils/schemas';
+import { saveAutosave } from '@/utils/drafts';
+import DraftControls from './DraftControls';
+import PresetControls from './PresetControls';
+import NeighborhoodCombobox from './NeighborhoodCombobox';
 
 interface HouseFormProps {
   onSubmit: (data: HouseData) => void;
   isLoading?: boolean;
   isBackendReady?: boolean;
+  // Initial values; later changes to this prop are ignored
+  defaultValues?: HouseData;
+  title?: string;
+  description?: string;
+  submitLabel?: string;
+  // Single-column layout for narrow cards
+  compact?: boolean;
+  // Autosave, named drafts and reset; meant for a single form per page
+  enableDrafts?: boolean;
+  // Extra controls shown next to the presets button
+  headerActions?: React.ReactNode;
+  // Offers live pricing: called with valid values shortly after each edit
+  onLiveChange?: (data: HouseData) => void;
 }
 
-interface NeighborhoodsResponse {
-  neighborhoods: string[]; // Define the expected shape of the neighborhoods data
-}
+// Empty number inputs stay undefined so validation reports them as missing
+const toNumber = (value: string) => value === '' ? undefined : Number(value);
 
-const HouseForm: React.FC<HouseFormProps> = ({ onSubmit, isLoading = false }) => {
-  const [formData, setFormData] = useState<HouseData>({...defaultHouseData});
-  const [neighborhoods, setNeighborhoods] = useState<string[]>([]);
-  const [isLoadingNeighborhoods, setIsLoadingNeighborhoods] = useState(true);
+const HouseForm: React.FC<HouseFormProps> = ({
+  onSubmit,
+  isLoading = false,
+  defaultValues = defaultHouseData,
+  title = "House Details",
+  description = "Enter the details of the property to get an estimated price",
+  submitLabel = "Predict Price",
+  compact = false,
+  enableDrafts = false,
+  headerActions,
+  onLiveChange
+}) => {
+  const form = useForm<HouseData>({
+    resolver: zodResolver(houseDataSchema),
+    defaultValues,
+    mode: 'onChange',
+  });
+  const neighborhoodsQuery = useNeighborhoods();
+  const propertyTypesQuery = usePropertyTypes();
   const { toast } = useToast();
+  const { unitSystem, livePricing, setPreferences } = usePreferences();
+  const isLive = livePricing && onLiveChange !== undefined;
+  useLiveRepricing(form, isLive, onLiveChange);
+  const floorAreaInput = floorAreaInputs[unitSystem];
+  const lotSizeInput = lotSizeInputs[unitSystem];
+
+  // The bundled suburb list is usable until the backend's arrives, so the form never waits on it
+  const neighborhoods = neighborhoodsQuery.data ?? defaultNeighborhoods;
 
-  const DEFAULT_NEIGHBORHOODS = [
-    'Downtown',
-    'Suburban Heights',
-    'Riverside',
-    'West End',
-    'North Hills'
-  ];
+  // Older models may not publish their property types; the dataset's codes are a safe default
+  const propertyTypes = propertyTypesQuery.data?.length ? propertyTypesQuery.data : defaultPropertyTypes;
 
-  // Load neighborhoods from API
+  // Select the first suburb once the list arrives, unless the current one is valid
+  const loadedNeighborhoods = neighborhoodsQuery.data;
   useEffect(() => {
-    const fetchNeighborhoods = async () => {
-      try {
-        const response = await fetch('http://localhost:5000/api/neighborhoods', {
-          headers: { 'Accept': 'application/json' }
-        });
-  
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-  
-        const contentType = response.headers.get('content-type');
-        if (!contentType?.includes('application/json')) {
-          throw new Error('Received non-JSON response');
-        }
-  
-        const data: NeighborhoodsResponse = await response.json(); // Type assertion
-  
-        if (!data.neighborhoods || !Array.isArray(data.neighborhoods)) {
-          throw new Error('Invalid neighborhoods data format');
-        }
-  
-        setNeighborhoods(data.neighborhoods);
-  
-        if (data.neighborhoods.length > 0) {
-          setFormData(prev => ({
-            ...prev,
-            neighborhood: data.neighborhoods[0]
-          }));
-        }
-      } catch (error) {
-        console.error('Neighborhood loading failed:', error);
-        setNeighborhoods(DEFAULT_NEIGHBORHOODS);
-        toast({
-          title: "Warning",
-          description: error.message || "Using default neighborhood options",
-          variant: "destructive",
-        });
-      } finally {
-        setIsLoadingNeighborhoods(false);
-      }
-    };
-  
-    fetchNeighborhoods();
-  }, []);
-  
+    if (loadedNeighborhoods?.length > 0 && !loadedNeighborhoods.includes(form.getValues('neighborhood'))) {
+      form.setValue('neighborhood', loadedNeighborhoods[0], { shouldValidate: true });
+    }
+  }, [loadedNeighborhoods, form]);
 
-  const handleChange = (field: keyof HouseData, value: any) => {
-    setFormData(prev => ({
-      ...prev,
-      [field]: value
-    }));
+  // Warn once when falling back to the default neighborhood options
+  const neighborhoodsError = neighborhoodsQuery.error;
+  const hasWarnedNeighborhoods = useRef(false);
+  useEffect(() => {
+    if (!neighborhoodsError || hasWarnedNeighborhoods.current) return;
+    hasWarnedNeighborhoods.current = true;
+
+    console.error('Neighborhood loading failed:', neighborhoodsError.failure);
+    const message = describeApiFailure(neighborhoodsError.failure);
+    toast({
+      title: "Using default neighborhood options",
+      description: `${message.title}: ${message.description}`,
+      variant: "destructive",
+    });
+  }, [neighborhoodsError, toast]);
+
+  // Fill the form from a preset; with drafts on, the result becomes the autosaved draft
+  const applyValues = (values: HouseData) => {
+    form.reset(values);
+    if (enableDrafts) saveAutosave(values);
   };
 
-  const handleSubmit = (e: React.FormEvent) => {
-    e.preventDefault();
-    onSubmit(formData);
+  // Price the current details straight away when live pricing is switched on
+  const handleLivePricingChange = (checked: boolean) => {
+    setPreferences({ livePricing: checked });
+    const values = checked ? validLiveValues(form) : null;
+    if (values) onLiveChange(values);
   };
 
   const currentYear = new Date().getFullYear();
 
   return (
     <Card className="glass-card w-full animate-scale-in">
-      <CardHeader>
-        <CardTitle className="text-2xl">House Details</CardTitle>
-        <CardDescription>
-          Enter the details of the property to get an estimated price
-        </CardDescription>
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="text-2xl">{title}</CardTitle>
+          <CardDescription>
+            {description}
+          </CardDescription>
+        </div>
+        <div className="flex shrink-0 items-center gap-1">
+          <PresetControls form={form} onApply={applyValues} />
+          {headerActions}
+        </div>
       </CardHeader>
       <CardContent>
-        <form onSubmit={handleSubmit} className="space-y-6">
-          <div className="form-container">
-            {/* Square Footage */}
-            <div className="input-group">
-              <Label htmlFor="squareFootage" className="input-label">Square Footage</Label>
-              <Input
-                id="squareFootage"
-                type="number"
-                value={formData.squareFootage}
-                onChange={(e) => handleChange('squareFootage', Number(e.target.value))}
-                min="500"
-                max="10000"
-                required
-                className="transition-all-fast"
-              />
-            </div>
+        <Form {...form}>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          {enableDrafts && <DraftControls form={form} />}
+
+          <div className={compact ? 'grid grid-cols-1 gap-6' : 'form-container'}>
+            {/* Floor Area */}
+            <FormField
+              control={form.control}
+              name="squareFootage"
+              render={({ field }) => (
+                <FormItem className="input-group">
+                  <FormLabel className="input-label">Floor Area ({floorAreaInput.unit})</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      {...field}
+                      value={field.value === undefined ? '' : floorAreaToDisplay(field.value, unitSystem)}
+                      onChange={(e) => {
+                        const value = toNumber(e.target.value);
+                        field.onChange(value === undefined ? value : floorAreaFromDisplay(value, unitSystem));
+                      }}
+                      min={floorAreaInput.min}
+                      max={floorAreaInput.max}
+                      step={floorAreaInput.step}
+                      className="transition-all-fast"
+                    />
+                  </FormControl>
+                  <FormDescription>
+                    {floorAreaInput.min}–{floorAreaInput.max} {floorAreaInput.unit}
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
             
             {/* Bedrooms */}
-            <div className="input-group">
-              <Label htmlFor="bedrooms" className="input-label">Bedrooms</Label>
-              <Input
-                id="bedrooms"
-                type="number"
-                value={formData.bedrooms}
-                onChange={(e) => handleChange('bedrooms', Number(e.target.value))}
-                min="1"
-                max="10"
-                required
-                className="transition-all-fast"
-              />
-            </div>
+            <FormField
+              control={form.control}
+              name="bedrooms"
+              // The bathroom limit depends on the bedroom count
+              rules={{ deps: ['bathrooms'] }}
+              render={({ field }) => (
+                <FormItem className="input-group">
+                  <FormLabel className="input-label">Bedrooms</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      {...field}
+                      value={field.value ?? ''}
+                      onChange={(e) => field.onChange(toNumber(e.target.value))}
+                      min={houseDataLimits.bedrooms.min}
+                      max={houseDataLimits.bedrooms.max}
+                      className="transition-all-fast"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
             
             {/* Bathrooms */}
-            <div className="input-group">
-              <Label htmlFor="bathrooms" className="input-label">Bathrooms</Label>
-              <Input
-                id="bathrooms"
-                type="number"
-                value={formData.bathrooms}
-                onChange={(e) => handleChange('bathrooms', Number(e.target.value))}
-                min="1"
-                max="7"
-                step="0.5"
-                required
-                className="transition-all-fast"
-              />
-            </div>
+            <FormField
+              control={form.control}
+              name="bathrooms"
+              render={({ field }) => (
+                <FormItem className="input-group">
+                  <FormLabel className="input-label">Bathrooms</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      {...field}
+                      value={field.value ?? ''}
+                      onChange={(e) => field.onChange(toNumber(e.target.value))}
+                      min={houseDataLimits.bathrooms.min}
+                      max={houseDataLimits.bathrooms.max}
+                      step={houseDataLimits.bathrooms.step}
+                      className="transition-all-fast"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
             
             {/* Year Built */}
-            <div className="input-group">
-              <Label htmlFor="yearBuilt" className="input-label">Year Built</Label>
-              <Input
-                id="yearBuilt"
-                type="number"
-                value={formData.yearBuilt}
-                onChange={(e) => handleChange('yearBuilt', Number(e.target.value))}
-                min="1900"
-                max={currentYear}
-                required
-                className="transition-all-fast"
-              />
-            </div>
+            <FormField
+              control={form.control}
+              name="yearBuilt"
+              render={({ field }) => (
+                <FormItem className="input-group">
+                  <FormLabel className="input-label">Year Built</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      {...field}
+                      value={field.value ?? ''}
+                      onChange={(e) => field.onChange(toNumber(e.target.value))}
+                      min={houseDataLimits.yearBuilt.min}
+                      max={currentYear}
+                      className="transition-all-fast"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
             
             {/* Neighborhood */}
-            <div className="input-group">
-              <Label htmlFor="neighborhood" className="input-label">Neighborhood</Label>
-              {isLoadingNeighborhoods ? (
-                <Input
-                  disabled
-                  value="Loading neighborhoods..."
-                  className="transition-all-fast"
-                />
-              ) : neighborhoods.length > 0 ? (
-                <Select 
-                  value={formData.neighborhood}
-                  onValueChange={(value) => handleChange('neighborhood', value)}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select neighborhood" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {neighborhoods.map((neighborhood) => (
-                      <SelectItem key={neighborhood} value={neighborhood}>
-                        {neighborhood}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              ) : (
-                <Input
-                  disabled
-                  value="No neighborhoods available"
-                  className="transition-all-fast"
-                />
+            <FormField
+              control={form.control}
+              name="neighborhood"
+              render={({ field }) => (
+                <FormItem className="input-group">
+                  <FormLabel className="input-label">Neighborhood</FormLabel>
+                  {neighborhoods.length > 0 ? (
+                    <FormControl>
+                      <NeighborhoodCombobox
+                        value={field.value}
+                        onChange={field.onChange}
+                        onBlur={field.onBlur}
+                        neighborhoods={neighborhoods}
+                      />
+                    </FormControl>
+                  ) : (
+                    <Input
+                      disabled
+                      value="No neighborhoods available"
+                      className="transition-all-fast"
+                    />
+                  )}
+                  <FormMessage />
+                </FormItem>
               )}
-            </div>
+            />
+            
+            {/* Property Type */}
+            <FormField
+              control={form.control}
+              name="propertyType"
+              render={({ field }) => (
+                <FormItem className="input-group">
+                  <FormLabel className="input-label">Property Type</FormLabel>
+                  <Select 
+                    value={field.value}
+                    onValueChange={field.onChange}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select property type" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {propertyTypes.map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {propertyTypeLabels[type] ?? type}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
             
             {/* Lot Size */}
-            <div className="input-group">
-              <Label htmlFor="lotSize" className="input-label">
-                Lot Size (acres): {formData.lotSize.toFixed(2)}
-              </Label>
-              <Slider
-                id="lotSize"
-                min={0.1}
-                max={2}
-                step={0.01}
-                value={[formData.lotSize]}
-                onValueChange={(value) => handleChange('lotSize', value[0])}
-                className="py-4"
-              />
-            </div>
+            <FormField
+              control={form.control}
+              name="lotSize"
+              render={({ field }) => (
+                <FormItem className="input-group">
+                  <FormLabel className="input-label">
+                    Lot Size ({lotSizeInput.unit}): {lotSizeToDisplay(field.value, unitSystem).toFixed(lotSizeInput.decimals)}
+                  </FormLabel>
+                  <FormControl>
+                    <Slider
+                      min={lotSizeInput.min}
+                      max={lotSizeInput.max}
+                      step={lotSizeInput.step}
+                      value={[lotSizeToDisplay(field.value, unitSystem)]}
+                      onValueChange={(value) => field.onChange(lotSizeFromDisplay(value[0], unitSystem))}
+                      className="py-4"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
             
             {/* Garage */}
-            <div className="input-group">
-              <Label htmlFor="garage" className="input-label">Garage Spaces</Label>
-              <Input
-                id="garage"
-                type="number"
-                value={formData.garage}
-                onChange={(e) => handleChange('garage', Number(e.target.value))}
-                min="0"
-                max="4"
-                required
-                className="transition-all-fast"
-              />
-            </div>
+            <FormField
+              control={form.control}
+              name="garage"
+              render={({ field }) => (
+                <FormItem className="input-group">
+                  <FormLabel className="input-label">Garage Spaces</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      {...field}
+                      value={field.value ?? ''}
+                      onChange={(e) => field.onChange(toNumber(e.target.value))}
+                      min={houseDataLimits.garage.min}
+                      max={houseDataLimits.garage.max}
+                      className="transition-all-fast"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
             
             {/* Kitchen Quality */}
-            <div className="input-group">
-              <Label htmlFor="kitchenQuality" className="input-label">
-                Kitchen Quality: {formData.kitchenQuality}/5
-              </Label>
-              <Slider
-                id="kitchenQuality"
-                min={1}
-                max={5}
-                step={1}
-                value={[formData.kitchenQuality]}
-                onValueChange={(value) => handleChange('kitchenQuality', value[0])}
-                className="py-4"
-              />
-            </div>
+            <FormField
+              control={form.control}
+              name="kitchenQuality"
+              render={({ field }) => (
+                <FormItem className="input-group">
+                  <FormLabel className="input-label">
+                    Kitchen Quality: {field.value}/5
+                  </FormLabel>
+                  <FormControl>
+                    <Slider
+                      min={houseDataLimits.kitchenQuality.min}
+                      max={houseDataLimits.kitchenQuality.max}
+                      step={houseDataLimits.kitchenQuality.step}
+                      value={[field.value]}
+                      onValueChange={(value) => field.onChange(value[0])}
+                      className="py-4"
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
             
             {/* Basement */}
-            <div className="input-group flex-row items-center space-y-0 space-x-2">
-              <Switch
-                id="basement"
-                checked={formData.basement}
-                onCheckedChange={(checked) => handleChange('basement', checked)}
-              />
-              <Label htmlFor="basement" className="input-label">Has Basement</Label>
-            </div>
+            <FormField
+              control={form.control}
+              name="basement"
+              render={({ field }) => (
+                <FormItem className="input-group flex-row items-center space-y-0 space-x-2">
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                    />
+                  </FormControl>
+                  <FormLabel className="input-label">Has Basement</FormLabel>
+                </FormItem>
+              )}
+            />
             
             {/* Central Air */}
-            <div className="input-group flex-row items-center space-y-0 space-x-2">
-              <Switch
-                id="centralAir"
-                checked={formData.centralAir}
-                onCheckedChange={(checked) => handleChange('centralAir', checked)}
-              />
-              <Label htmlFor="centralAir" className="input-label">Central Air</Label>
-            </div>
+            <FormField
+              control={form.control}
+              name="centralAir"
+              render={({ field }) => (
+                <FormItem className="input-group flex-row items-center space-y-0 space-x-2">
+                  <FormControl>
+                    <Switch
+                      checked={field.value}
+                      onCheckedChange={field.onChange}
+                    />
+                  </FormControl>
+                  <FormLabel className="input-label">Central Air</FormLabel>
+                </FormItem>
+              )}
+            />
           </div>
           
+          {onLiveChange && (
+            <div className="flex items-center justify-between gap-4 rounded-md border bg-muted/30 px-3 py-2">
+              <div className="space-y-0.5">
+                <Label htmlFor="live-pricing" className="text-sm font-medium">Live pricing</Label>
+                <p className="text-xs text-muted-foreground">
+                  Update the estimate as you edit. Live estimates are not saved to history.
+                </p>
+              </div>
+              <Switch id="live-pricing" checked={livePricing} onCheckedChange={handleLivePricingChange} />
+            </div>
+          )}
+
           <Button 
             type="submit" 
             className="w-full mt-6 transition-all-fast"
-            disabled={isLoading || isLoadingNeighborhoods}
+            disabled={isLoading}
           >
-            {isLoading ? "Calculating..." : "Predict Price"}
+            {isLoading ? "Calculating..." : submitLabel}
           </Button>
         </form>
+        </Form>
       </CardContent>
     </Card>
   );
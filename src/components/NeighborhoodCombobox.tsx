@@ -0,0 +1,147 @@
+import React, { useMemo, useState } from 'react';
+import { Check, ChevronsUpDown, History } from 'lucide-react';
+import { suburbLocations } from '../data/suburbLocations';
+import { fuzzyScore } from '../utils/fuzzyMatch';
+import { useRecentSuburbs } from '@/hooks/use-recent-suburbs';
+import { cn } from '@/lib/utils';
+import { Button } from "@/components/ui/button";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+
+type GroupBy = 'region' | 'councilArea';
+
+const groupByLabels: Record<GroupBy, string> = {
+  region: "Region",
+  councilArea: "Council",
+};
+
+// Suburbs the backend knows about but the bundled dataset does not
+const OTHER_GROUP = "Other";
+
+interface NeighborhoodComboboxProps extends Omit<React.ButtonHTMLAttributes<HTMLButtonElement>, 'value' | 'onChange'> {
+  value: string;
+  onChange: (value: string) => void;
+  neighborhoods: string[];
+}
+
+interface Match {
+  suburb: string;
+  score: number;
+}
+
+// Type-ahead suburb picker, grouped by region or council, with recently used
+// suburbs pinned first. Extra props (id, aria-*) go to the trigger button so
+// it works inside FormControl.
+const NeighborhoodCombobox = React.forwardRef<HTMLButtonElement, NeighborhoodComboboxProps>(
+  ({ value, onChange, neighborhoods, className, ...triggerProps }, ref) => {
+    const [open, setOpen] = useState(false);
+    const [query, setQuery] = useState('');
+    const [groupBy, setGroupBy] = useState<GroupBy>('region');
+    const { recent, addRecent } = useRecentSuburbs();
+
+    // A suburb can also be found by its council, e.g. "yarra" finds Richmond
+    const matches = useMemo(() => neighborhoods.flatMap((suburb): Match[] => {
+      const suburbScore = fuzzyScore(query, suburb);
+      const councilScore = fuzzyScore(query, suburbLocations[suburb]?.councilArea ?? '');
+      const score = Math.max(suburbScore ?? -Infinity, councilScore === null ? -Infinity : councilScore / 2);
+      return score === -Infinity ? [] : [{ suburb, score }];
+    }), [neighborhoods, query]);
+
+    const recentMatches = recent
+      .map(suburb => matches.find(match => match.suburb === suburb))
+      .filter(Boolean);
+
+    // Groups keep their best match first while searching, and alphabetical order otherwise
+    const groups = useMemo(() => {
+      const pinned = new Set(recent);
+      const grouped = new Map<string, Match[]>();
+      matches
+        .filter(match => !pinned.has(match.suburb))
+        .forEach(match => {
+          const heading = suburbLocations[match.suburb]?.[groupBy] ?? OTHER_GROUP;
+          grouped.set(heading, [...(grouped.get(heading) ?? []), match]);
+        });
+
+      const byRelevance = (a: Match, b: Match) => query ? b.score - a.score : a.suburb.localeCompare(b.suburb);
+      return [...grouped.entries()]
+        .map(([heading, items]) => ({ heading, items: items.sort(byRelevance) }))
+        .sort((a, b) => query
+          ? b.items[0].score - a.items[0].score
+          : Number(a.heading === OTHER_GROUP) - Number(b.heading === OTHER_GROUP) || a.heading.localeCompare(b.heading));
+    }, [matches, recent, groupBy, query]);
+
+    const handleSelect = (suburb: string) => {
+      onChange(suburb);
+      addRecent(suburb);
+      setOpen(false);
+      setQuery('');
+    };
+
+    const renderItem = (suburb: string) => (
+      <CommandItem key={suburb} value={suburb} onSelect={() => handleSelect(suburb)}>
+        <Check className={cn("mr-2 h-4 w-4", suburb === value ? "opacity-100" : "opacity-0")} />
+        <span className="flex-1 truncate">{suburb}</span>
+        {groupBy === 'region' && suburbLocations[suburb]?.councilArea && (
+          <span className="ml-2 text-xs text-muted-foreground truncate">{suburbLocations[suburb].councilArea}</span>
+        )}
+      </CommandItem>
+    );
+
+    return (
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            ref={ref}
+            type="button"
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className={cn("w-full justify-between font-normal", !value && "text-muted-foreground", className)}
+            {...triggerProps}
+          >
+            <span className="truncate">{value || "Select neighborhood"}</span>
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[--radix-popover-trigger-width] min-w-72 p-0" align="start">
+          <Command shouldFilter={false}>
+            <CommandInput value={query} onValueChange={setQuery} placeholder="Search suburb or council..." />
+            <div className="flex items-center justify-between border-b px-3 py-1.5 text-xs text-muted-foreground">
+              Group by
+              <ToggleGroup
+                type="single"
+                size="sm"
+                value={groupBy}
+                onValueChange={(next) => next && setGroupBy(next as GroupBy)}
+              >
+                {(Object.keys(groupByLabels) as GroupBy[]).map(option => (
+                  <ToggleGroupItem key={option} value={option} className="h-6 px-2 text-xs">
+                    {groupByLabels[option]}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </div>
+            <CommandList>
+              <CommandEmpty>No suburb matches "{query}".</CommandEmpty>
+              {recentMatches.length > 0 && (
+                <CommandGroup heading={<span className="flex items-center"><History className="mr-1 h-3 w-3" />Recent</span>}>
+                  {recentMatches.map(match => renderItem(match.suburb))}
+                </CommandGroup>
+              )}
+              {groups.map(group => (
+                <CommandGroup key={group.heading} heading={group.heading}>
+                  {group.items.map(match => renderItem(match.suburb))}
+                </CommandGroup>
+              ))}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    );
+  }
+);
+
+NeighborhoodCombobox.displayName = 'NeighborhoodCombobox';
+
+export default NeighborhoodCombobox;
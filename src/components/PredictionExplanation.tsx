@@ -0,0 +1,137 @@
+import React, { useMemo } from 'react';
+import { Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from 'recharts';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { PriceExplanation } from '../data/modelData';
+import { featureDisplayName } from '../utils/featureImportance';
+import { PRICE_FLOOR_FEATURE } from '../utils/prediction';
+import { usePriceFormatter } from '@/hooks/use-preferences';
+
+// Steps shown individually; the rest are summed into one "Other features" step
+const MAX_STEPS = 7;
+// Contributions smaller than this (in model currency) are left out
+const MIN_CONTRIBUTION = 1;
+
+const chartConfig = {
+  total: {
+    label: "Price",
+    color: "hsl(var(--primary))",
+  },
+  increase: {
+    label: "Raises the price",
+    color: "hsl(142 71% 45%)",
+  },
+  decrease: {
+    label: "Lowers the price",
+    color: "hsl(var(--destructive))",
+  },
+} satisfies ChartConfig;
+
+type StepKind = keyof typeof chartConfig;
+
+interface WaterfallStep {
+  label: string;
+  // Where the bar starts and ends on the price axis
+  range: [number, number];
+  amount: number;
+  kind: StepKind;
+}
+
+function stepLabel(feature: string): string {
+  return feature === PRICE_FLOOR_FEATURE ? "Minimum price" : featureDisplayName(feature);
+}
+
+// Baseline, then each contribution largest first, then the estimate
+function buildWaterfall({ baseline, contributions }: PriceExplanation, price: number): WaterfallStep[] {
+  const sorted = contributions
+    .filter(({ contribution }) => Math.abs(contribution) >= MIN_CONTRIBUTION)
+    .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+  const shown = sorted.length > MAX_STEPS ? sorted.slice(0, MAX_STEPS - 1) : sorted;
+  const otherTotal = sorted.slice(shown.length).reduce((sum, { contribution }) => sum + contribution, 0);
+
+  const deltas = shown.map(({ feature, contribution }) => ({ label: stepLabel(feature), amount: contribution }));
+  if (shown.length < sorted.length) deltas.push({ label: "Other features", amount: otherTotal });
+
+  let running = baseline;
+  const steps: WaterfallStep[] = deltas.map(({ label, amount }) => {
+    const start = running;
+    running += amount;
+    return { label, range: [start, running], amount, kind: amount >= 0 ? 'increase' : 'decrease' };
+  });
+
+  return [
+    { label: "Baseline", range: [0, baseline], amount: baseline, kind: 'total' },
+    ...steps,
+    { label: "Estimate", range: [0, price], amount: price, kind: 'total' },
+  ];
+}
+
+interface PredictionExplanationProps {
+  explanation: PriceExplanation;
+  price: number;
+}
+
+// Waterfall from the model's baseline price to this estimate, one bar per feature
+const PredictionExplanation: React.FC<PredictionExplanationProps> = ({ explanation, price }) => {
+  const { formatPrice, formatCompactPrice } = usePriceFormatter();
+  const steps = useMemo(() => buildWaterfall(explanation, price), [explanation, price]);
+
+  const formatStep = (step: WaterfallStep) => step.kind === 'total'
+    ? formatPrice(step.amount)
+    : `${step.amount >= 0 ? '+' : '−'}${formatPrice(Math.abs(step.amount))}`;
+
+  return (
+    <Card className="glass-card w-full animate-fade-in">
+      <CardHeader>
+        <CardTitle className="text-2xl">Why this price</CardTitle>
+        <CardDescription>
+          How each detail moved the estimate away from the baseline price
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <ChartContainer config={chartConfig} className="aspect-auto w-full" style={{ height: steps.length * 36 + 40 }}>
+          <BarChart data={steps} layout="vertical" margin={{ left: 4, right: 12 }}>
+            <CartesianGrid horizontal={false} />
+            <XAxis type="number" tickFormatter={formatCompactPrice} tickLine={false} axisLine={false} />
+            <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={100} />
+            <ChartTooltip
+              cursor={false}
+              content={
+                <ChartTooltipContent
+                  hideIndicator
+                  formatter={(_value, _name, item) => formatStep(item.payload as WaterfallStep)}
+                />
+              }
+            />
+            <Bar dataKey="range" radius={4}>
+              {steps.map((step) => (
+                <Cell key={step.label} fill={`var(--color-${step.kind})`} />
+              ))}
+            </Bar>
+          </BarChart>
+        </ChartContainer>
+
+        <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+          {(Object.keys(chartConfig) as StepKind[]).map((kind) => (
+            <span key={kind} className="flex items-center gap-1.5">
+              <span className="h-2.5 w-2.5 rounded-sm" style={{ backgroundColor: chartConfig[kind].color }} />
+              {chartConfig[kind].label}
+            </span>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          The baseline is a typical sale in the training data. Effects depend on each other,
+          so a detail can count for more or less on a different property.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PredictionExplanation;
@@ -1,5 +1,5 @@
 
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { 
   Card, 
   CardContent,
@@ -7,17 +7,47 @@ import {
   CardHeader,
   CardTitle 
 } from "@/components/ui/card";
-import { formatPrice } from '../utils/prediction';
+import { HouseData, PredictionConfidence, PriceRange } from '../data/modelData';
+import { usePreferences, usePriceFormatter } from '@/hooks/use-preferences';
+import { useAnimatedNumber } from '@/hooks/use-animated-number';
+import { describeCurrencySource } from '../utils/currency';
+import { floorAreaInputs, floorAreaToDisplay, formatFloorArea, formatLotSize } from '../utils/units';
+import { buildShareUrl } from '../utils/urlState';
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/components/ui/use-toast";
+import { Link2, TrendingDown, TrendingUp } from 'lucide-react';
+import PriceRangeBar from './PriceRangeBar';
 
 interface PredictionResultProps {
   price: number | null;
+  range?: PriceRange | null;
+  confidence?: PredictionConfidence | null;
+  // The details the price was predicted for
+  input?: HouseData | null;
   isLoading?: boolean;
-  isUsingFallback?: boolean
+  // A live re-price is in flight; the current price stays up meanwhile
+  isUpdating?: boolean;
+  // The price came from a local estimator rather than the backend model
+  isUsingFallback?: boolean;
 }
 
-const PredictionResult: React.FC<PredictionResultProps> = ({ price, isLoading = false }) => {
+const PredictionResult: React.FC<PredictionResultProps> = ({
+  price,
+  range = null,
+  confidence = null,
+  input = null,
+  isLoading = false,
+  isUpdating = false,
+  isUsingFallback = false
+}) => {
+  const { unitSystem } = usePreferences();
+  const { display, formatPrice } = usePriceFormatter();
   const prevPriceRef = useRef<number | null>(null);
   const priceDisplayRef = useRef<HTMLDivElement>(null);
+  const animatedPrice = useAnimatedNumber(price);
+  // Change from the previous estimate; the id restarts its animation
+  const [change, setChange] = useState<{ amount: number; id: number } | null>(null);
   
   useEffect(() => {
     if (price !== null && price !== prevPriceRef.current && priceDisplayRef.current) {
@@ -25,12 +55,34 @@ const PredictionResult: React.FC<PredictionResultProps> = ({ price, isLoading =
       priceDisplayRef.current.classList.remove('animate-scale-in');
       void priceDisplayRef.current.offsetWidth; // Force reflow
       priceDisplayRef.current.classList.add('animate-scale-in');
-      
+
+      const previous = prevPriceRef.current;
+      if (previous !== null) {
+        setChange(current => ({ amount: price - previous, id: (current?.id ?? 0) + 1 }));
+      }
       prevPriceRef.current = price;
     }
   }, [price]);
   
   if (price === null && !isLoading) return null;
+
+  const handleCopyLink = async () => {
+    const url = buildShareUrl(input);
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: "Link copied",
+        description: "Anyone with the link will see these details and their estimate",
+      });
+    } catch (error) {
+      console.error('Copying the share link failed:', error);
+      toast({
+        title: "Could not copy link",
+        description: url,
+        variant: "destructive",
+      });
+    }
+  };
   
   return (
     <Card className="glass-card w-full mt-8 overflow-hidden">
@@ -43,21 +95,71 @@ const PredictionResult: React.FC<PredictionResultProps> = ({ price, isLoading =
       <CardContent className="pt-6 pb-8">
         <div ref={priceDisplayRef} className="flex flex-col items-center justify-center">
           <div className="chip mb-3">Estimated Value</div>
+          {isUsingFallback && !isLoading && (
+            <Badge variant="secondary" className="mb-3" title="The backend model was unavailable for this estimate">
+              Fallback estimate
+            </Badge>
+          )}
           
           {isLoading ? (
             <div className="h-16 flex items-center justify-center">
               <div className="loader"></div>
             </div>
           ) : (
-            <div className="text-4xl md:text-5xl lg:text-6xl font-bold text-primary">
-              {formatPrice(price!)}
-            </div>
+            <>
+              <div
+                className={`text-4xl md:text-5xl lg:text-6xl font-bold text-primary transition-opacity ${isUpdating ? 'opacity-60' : ''}`}
+                aria-busy={isUpdating}
+              >
+                {formatPrice(Math.round(animatedPrice ?? price!))}
+              </div>
+              {change && (
+                <div
+                  key={change.id}
+                  className={`mt-2 inline-flex items-center gap-1 rounded-full px-2.5 py-0.5 text-sm font-medium animate-fade-in ${
+                    change.amount >= 0 ? 'bg-green-50 text-green-700' : 'bg-red-50 text-red-700'
+                  }`}
+                  aria-live="polite"
+                >
+                  {change.amount >= 0 ? <TrendingUp className="h-3.5 w-3.5" /> : <TrendingDown className="h-3.5 w-3.5" />}
+                  {change.amount >= 0 ? '+' : '−'}{formatPrice(Math.abs(change.amount))} from previous estimate
+                </div>
+              )}
+              {range && <PriceRangeBar price={price!} range={range} confidence={confidence} />}
+              {input && input.squareFootage > 0 && (
+                <div className="mt-4 w-full grid grid-cols-2 gap-2 text-sm">
+                  <div className="rounded-md bg-muted/50 p-2 text-center">
+                    <div className="text-muted-foreground text-xs">Floor area</div>
+                    <div className="font-medium">{formatFloorArea(input.squareFootage, unitSystem)}</div>
+                  </div>
+                  <div className="rounded-md bg-muted/50 p-2 text-center">
+                    <div className="text-muted-foreground text-xs">Lot size</div>
+                    <div className="font-medium">{formatLotSize(input.lotSize, unitSystem)}</div>
+                  </div>
+                  <div className="col-span-2 rounded-md bg-muted/50 p-2 text-center">
+                    <div className="text-muted-foreground text-xs">Price per {floorAreaInputs[unitSystem].unit}</div>
+                    <div className="font-medium">
+                      {formatPrice(price! / floorAreaToDisplay(input.squareFootage, unitSystem))}
+                    </div>
+                  </div>
+                </div>
+              )}
+              {input && (
+                <Button variant="outline" size="sm" className="mt-4" onClick={handleCopyLink}>
+                  <Link2 className="h-4 w-4 mr-2" />
+                  Copy link
+                </Button>
+              )}
+            </>
           )}
           
           <p className="mt-4 text-sm text-muted-foreground text-center max-w-md">
             This estimate is based on current market trends and comparable properties
             in the selected neighborhood.
           </p>
+          <p className="mt-2 text-xs text-muted-foreground text-center max-w-md">
+            {describeCurrencySource(display)}
+          </p>
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,34 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  Preferences,
+  PreferencesContext,
+  PREFERENCES_STORAGE_KEY,
+  loadPreferences
+} from '@/hooks/use-preferences';
+
+// Display preferences shared across pages and persisted in localStorage
+const PreferencesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [preferences, setPreferencesState] = useState<Preferences>(loadPreferences);
+
+  const setPreferences = useCallback((update: Partial<Preferences>) => {
+    setPreferencesState(prev => {
+      const next = { ...prev, ...update };
+      try {
+        localStorage.setItem(PREFERENCES_STORAGE_KEY, JSON.stringify(next));
+      } catch (error) {
+        console.warn('Could not save preferences:', error);
+      }
+      return next;
+    });
+  }, []);
+
+  const value = useMemo(() => ({ ...preferences, setPreferences }), [preferences, setPreferences]);
+
+  return (
+    <PreferencesContext.Provider value={value}>
+      {children}
+    </PreferencesContext.Provider>
+  );
+};
+
+export default PreferencesProvider;
@@ -0,0 +1,196 @@
+import React, { useState } from 'react';
+import { UseFormReturn } from 'react-hook-form';
+import { Download, Trash2, Upload, Bookmark } from 'lucide-react';
+import { HouseData } from '../data/modelData';
+import { propertyTemplates } from '../data/propertyTemplates';
+import { Preset, deletePreset, formatPresetFile, loadPresets, parsePresetFile, savePresets } from '../utils/presets';
+import { downloadTextFile } from '../utils/download';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Separator } from "@/components/ui/separator";
+import { toast } from "@/components/ui/use-toast";
+
+interface PresetControlsProps {
+  form: UseFormReturn<HouseData>;
+  onApply: (values: HouseData) => void;
+}
+
+// Built-in templates and the user's saved presets, applied to the form in one click.
+// Buttons are type="button" in case this renders inside a form.
+const PresetControls: React.FC<PresetControlsProps> = ({ form, onApply }) => {
+  const [open, setOpen] = useState(false);
+  const [presets, setPresets] = useState<Preset[]>(loadPresets);
+  const [presetName, setPresetName] = useState('');
+
+  const apply = (values: HouseData) => {
+    onApply(values);
+    setOpen(false);
+  };
+
+  // Storage errors (e.g. a full quota) surface as a toast rather than breaking the form
+  const updatePresets = (update: () => Preset[], failureTitle: string) => {
+    try {
+      setPresets(update());
+      return true;
+    } catch (error) {
+      toast({
+        title: failureTitle,
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const handleSave = async () => {
+    const name = presetName.trim();
+    if (!name) return;
+    if (!(await form.trigger())) {
+      toast({
+        title: "Cannot save preset",
+        description: "Fix the highlighted fields first; presets must be complete.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (updatePresets(() => savePresets([{ name, values: form.getValues() }]), "Could not save preset")) {
+      setPresetName('');
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const { presets: imported, rejected } = parsePresetFile(await file.text());
+      setPresets(savePresets(imported));
+      toast({
+        title: `Imported ${imported.length} preset${imported.length === 1 ? '' : 's'}`,
+        description: rejected.length > 0
+          ? `Skipped with invalid details: ${rejected.join(', ')}`
+          : "Presets with the same name were replaced.",
+        variant: rejected.length > 0 ? "destructive" : "default",
+      });
+    } catch (error) {
+      toast({
+        title: "Could not import presets",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleExport = () => {
+    downloadTextFile('cozy-quarters-presets.json', formatPresetFile(presets), 'application/json');
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button type="button" variant="outline" size="sm">
+          <Bookmark className="h-4 w-4 mr-2" />
+          Presets
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-3">
+        <div className="space-y-1">
+          <div className="text-xs font-medium uppercase tracking-wide text-muted-foreground">Templates</div>
+          {propertyTemplates.map((template) => (
+            <Button
+              key={template.name}
+              type="button"
+              variant="ghost"
+              className="h-auto w-full flex-col items-start py-2 font-normal"
+              onClick={() => apply(template.values)}
+            >
+              <span className="font-medium">{template.name}</span>
+              <span className="text-xs text-muted-foreground">{template.description}</span>
+            </Button>
+          ))}
+        </div>
+
+        <Separator />
+
+        <div className="space-y-1">
+          <div className="text-xs font-medium uppercase tracking-wide text-muted-foreground">My presets</div>
+          {presets.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-1">No presets yet.</p>
+          ) : (
+            <ul className="space-y-1 max-h-48 overflow-y-auto">
+              {presets.map((preset) => (
+                <li key={preset.name} className="flex items-center gap-1">
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="flex-1 justify-start font-normal truncate"
+                    onClick={() => apply(preset.values)}
+                  >
+                    {preset.name}
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    aria-label={`Delete preset ${preset.name}`}
+                    onClick={() => updatePresets(() => deletePreset(preset.name), "Could not delete preset")}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex gap-2 pt-1">
+            <Input
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              onKeyDown={(e) => {
+                // Save on Enter
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleSave();
+                }
+              }}
+              placeholder="Save current details as..."
+              aria-label="Preset name"
+              className="h-8"
+            />
+            <Button type="button" size="sm" onClick={handleSave} disabled={!presetName.trim()}>
+              Save
+            </Button>
+          </div>
+        </div>
+
+        <Separator />
+
+        <div className="flex gap-2">
+          <Button type="button" variant="outline" size="sm" className="flex-1" asChild>
+            <label className="cursor-pointer">
+              <Upload className="h-4 w-4 mr-2" />
+              Import
+              <input type="file" accept=".json,application/json" className="sr-only" onChange={handleImport} />
+            </label>
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            className="flex-1"
+            onClick={handleExport}
+            disabled={presets.length === 0}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default PresetControls;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { Info } from 'lucide-react';
+import { PredictionConfidence, PriceRange } from '../data/modelData';
+import { usePriceFormatter } from '@/hooks/use-preferences';
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { cn } from '@/lib/utils';
+
+const confidenceStyles: Record<PredictionConfidence, { label: string; className: string }> = {
+  high: { label: "High confidence", className: "border-green-200 bg-green-50 text-green-700" },
+  medium: { label: "Medium confidence", className: "border-yellow-200 bg-yellow-50 text-yellow-700" },
+  low: { label: "Low confidence", className: "border-red-200 bg-red-50 text-red-700" },
+};
+
+interface PriceRangeBarProps {
+  price: number;
+  range: PriceRange;
+  // Only set for the backend model, whose interval comes from its trees
+  confidence?: PredictionConfidence | null;
+}
+
+// The likely price range as a bar, with the point estimate marked on it
+const PriceRangeBar: React.FC<PriceRangeBarProps> = ({ price, range, confidence = null }) => {
+  const { formatPrice } = usePriceFormatter();
+
+  const width = range.high - range.low;
+  // The forest's average can sit outside the middle of its trees' spread
+  const position = width > 0 ? Math.min(100, Math.max(0, ((price - range.low) / width) * 100)) : 50;
+  const coverage = range.level !== undefined ? `${Math.round(range.level * 100)}%` : null;
+
+  return (
+    <div className="mt-4 w-full space-y-2">
+      <div className="flex items-center justify-between text-sm">
+        <span className="flex items-center gap-1 font-medium">
+          Likely range
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <button type="button" className="text-muted-foreground hover:text-foreground" aria-label="What the range means">
+                <Info className="h-3.5 w-3.5" />
+              </button>
+            </TooltipTrigger>
+            <TooltipContent className="max-w-xs space-y-1 text-xs">
+              <p>
+                {coverage
+                  ? `The sale price is expected to land in this range about ${coverage} of the time.`
+                  : "The sale price is expected to land in this range."}{' '}
+                The marker shows the estimate itself.
+              </p>
+              <p>
+                {confidence
+                  ? "It is the spread of the predictions made by the individual trees in the model. They disagree more where few similar properties have sold, so a wider range means lower confidence."
+                  : "It comes from the fallback model's typical error on past sales, so it is the same width relative to the price for every property."}
+              </p>
+            </TooltipContent>
+          </Tooltip>
+        </span>
+        {confidence && (
+          <span className={cn("rounded-full border px-2 py-0.5 text-xs font-medium", confidenceStyles[confidence].className)}>
+            {confidenceStyles[confidence].label}
+          </span>
+        )}
+      </div>
+
+      <div className="relative h-3 rounded-full bg-primary/15">
+        <div
+          className="absolute top-1/2 h-5 w-1.5 -translate-x-1/2 -translate-y-1/2 rounded-full bg-primary shadow"
+          style={{ left: `${position}%` }}
+          role="img"
+          aria-label={`Estimate of ${formatPrice(price)} between ${formatPrice(range.low)} and ${formatPrice(range.high)}`}
+        />
+      </div>
+
+      <div className="flex justify-between text-xs text-muted-foreground font-mono">
+        <span>{formatPrice(range.low)}</span>
+        <span>{formatPrice(range.high)}</span>
+      </div>
+    </div>
+  );
+};
+
+export default PriceRangeBar;
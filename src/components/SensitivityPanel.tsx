@@ -0,0 +1,191 @@
+import React, { useMemo, useState } from 'react';
+import { CartesianGrid, Line, LineChart, ReferenceDot, ReferenceLine, XAxis, YAxis } from 'recharts';
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle
+} from "@/components/ui/card";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { HouseData } from '../data/modelData';
+import { describeApiFailure } from '../utils/apiMessages';
+import { SENSITIVITY_FIELDS, SensitivityField } from '../utils/sensitivity';
+import { floorAreaInputs, lotSizeInputs } from '../utils/units';
+import { usePreferences, usePriceFormatter } from '@/hooks/use-preferences';
+import { useSensitivity } from '@/hooks/use-sensitivity';
+
+type ValueMode = 'absolute' | 'delta';
+
+const valueModeLabels: Record<ValueMode, string> = {
+  absolute: "Price",
+  delta: "Change",
+};
+
+const fieldLabels: Record<SensitivityField, string> = {
+  squareFootage: "Floor Area",
+  bedrooms: "Bedrooms",
+  bathrooms: "Bathrooms",
+  lotSize: "Lot Size",
+  yearBuilt: "Year Built",
+  garage: "Garage Spaces",
+  kitchenQuality: "Kitchen Quality",
+};
+
+const chartConfig = {
+  price: {
+    label: "Estimate",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+interface SensitivityPanelProps {
+  // The details the current estimate was made for
+  input: HouseData;
+}
+
+// What-if explorer: the estimate as one detail changes and the rest stay put
+const SensitivityPanel: React.FC<SensitivityPanelProps> = ({ input }) => {
+  const { unitSystem } = usePreferences();
+  const { formatPrice, formatCompactPrice } = usePriceFormatter();
+  const [field, setField] = useState<SensitivityField>('squareFootage');
+  const [mode, setMode] = useState<ValueMode>('absolute');
+  const sensitivity = useSensitivity(input, field, unitSystem);
+
+  const unit = field === 'squareFootage'
+    ? floorAreaInputs[unitSystem].unit
+    : field === 'lotSize' ? lotSizeInputs[unitSystem].unit : null;
+  const formatValue = (value: number) => `${value.toLocaleString()}${unit ? ` ${unit}` : ''}`;
+  const formatDelta = (delta: number, format: (price: number) => string) =>
+    `${delta >= 0 ? '+' : '−'}${format(Math.abs(delta))}`;
+
+  const points = sensitivity.data?.points;
+  const current = points?.find((point) => point.isCurrent);
+  const chartData = useMemo(() => points?.map((point) => ({
+    x: point.displayValue,
+    price: mode === 'delta' ? point.price - current.price : point.price,
+  })), [points, current, mode]);
+
+  // The effect of the next step up from the current value, e.g. one more bathroom
+  const currentIndex = points?.findIndex((point) => point.isCurrent) ?? -1;
+  const nextPoint = points?.[currentIndex + 1];
+
+  const renderChart = () => {
+    if (sensitivity.isPending) {
+      return <Skeleton className="h-56 w-full" />;
+    }
+    if (sensitivity.isError) {
+      const { title, description } = describeApiFailure(sensitivity.error.failure);
+      return (
+        <p className="text-sm text-muted-foreground">
+          <span className="font-medium text-foreground">{title}.</span> {description}
+        </p>
+      );
+    }
+
+    const formatY = mode === 'delta'
+      ? (value: number) => formatDelta(value, formatCompactPrice)
+      : formatCompactPrice;
+
+    return (
+      <ChartContainer config={chartConfig} className="aspect-auto h-56 w-full">
+        <LineChart data={chartData} margin={{ left: 4, right: 12, top: 8 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis
+            type="number"
+            dataKey="x"
+            domain={['dataMin', 'dataMax']}
+            tickFormatter={(value: number) => value.toLocaleString()}
+            tickLine={false}
+            axisLine={false}
+          />
+          <YAxis tickFormatter={formatY} tickLine={false} axisLine={false} width={72} />
+          <ChartTooltip
+            cursor={false}
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) => formatValue(payload[0]?.payload.x)}
+                formatter={(value) => mode === 'delta'
+                  ? formatDelta(Number(value), formatPrice)
+                  : formatPrice(Number(value))}
+              />
+            }
+          />
+          <ReferenceLine x={current.displayValue} stroke="hsl(var(--muted-foreground))" strokeDasharray="4 4" />
+          <Line dataKey="price" type="linear" stroke="var(--color-price)" strokeWidth={2} dot={false} />
+          <ReferenceDot
+            x={current.displayValue}
+            y={mode === 'delta' ? 0 : current.price}
+            r={5}
+            fill="var(--color-price)"
+            stroke="white"
+            strokeWidth={2}
+          />
+        </LineChart>
+      </ChartContainer>
+    );
+  };
+
+  return (
+    <Card className="glass-card w-full animate-fade-in">
+      <CardHeader>
+        <CardTitle className="text-2xl">What if?</CardTitle>
+        <CardDescription>
+          How the estimate changes with one detail, keeping the rest as entered
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <Select value={field} onValueChange={(value) => setField(value as SensitivityField)}>
+            <SelectTrigger className="w-44" aria-label="Detail to vary">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SENSITIVITY_FIELDS.map((option) => (
+                <SelectItem key={option} value={option}>{fieldLabels[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={mode}
+            onValueChange={(next) => next && setMode(next as ValueMode)}
+          >
+            {(Object.keys(valueModeLabels) as ValueMode[]).map((option) => (
+              <ToggleGroupItem key={option} value={option} className="h-8 px-3 text-xs">
+                {valueModeLabels[option]}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+
+        {renderChart()}
+
+        {current && (
+          <div className="text-sm text-muted-foreground space-y-1">
+            <p>
+              The marker is your property at {formatValue(current.displayValue)}
+              {nextPoint && (
+                <>
+                  ; at {formatValue(nextPoint.displayValue)} the estimate would be{' '}
+                  <span className="font-medium text-foreground">
+                    {formatDelta(nextPoint.price - current.price, formatPrice)}
+                  </span>
+                </>
+              )}.
+            </p>
+            {sensitivity.data.source === 'fallback' && (
+              <p className="text-xs">Priced with the fallback estimator while the backend model is unavailable.</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SensitivityPanel;
@@ -0,0 +1,27 @@
+// Exchange rates from the model's native currency (AUD), maintained by hand.
+// No live rate service is used: update the table and asOf date when needed.
+
+export interface ExchangeRateTable {
+  base: string;
+  // Date the rates were last checked
+  asOf: string;
+  // Units of each currency per one unit of the base currency
+  rates: Record<string, number>;
+}
+
+export const exchangeRates: ExchangeRateTable = {
+  base: "AUD",
+  asOf: "2025-03-28",
+  rates: {
+    AUD: 1,
+    USD: 0.63,
+    EUR: 0.58,
+    GBP: 0.49,
+    NZD: 1.1,
+    CAD: 0.9,
+    SGD: 0.84,
+    JPY: 94.5,
+    CNY: 4.58,
+    INR: 54.1,
+  },
+};
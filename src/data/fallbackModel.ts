@@ -0,0 +1,368 @@
+// Generated by scripts/generate-fallback-model.mjs from backend/data/melb_data.csv.
+// Do not edit by hand; rerun `npm run generate:fallback-model` when the dataset changes.
+
+export interface FallbackModel {
+  // Currency of every price below
+  currency: string;
+  // Rows with complete numeric features used for the linear fit
+  trainingRows: number;
+  overallMedianPrice: number;
+  // Log of the price relative to the suburb median, for a median property
+  intercept: number;
+  // Features are centred on these medians; areas are in square metres
+  featureMedians: Record<FallbackFeature, number>;
+  // Change in log price per unit above the median
+  coefficients: Record<FallbackFeature, number>;
+  // Log price offset by property type (h=house, u=unit, t=townhouse), relative to a house
+  propertyTypeEffects: Record<string, number>;
+  // Median absolute error of the fit, relative to the sale price
+  typicalRelativeError: number;
+  suburbMedianPrices: Record<string, number>;
+}
+
+export type FallbackFeature = "bedrooms" | "bathrooms" | "buildingArea" | "landsize" | "yearBuilt" | "garage";
+
+export const fallbackModel: FallbackModel = {
+  "currency": "AUD",
+  "trainingRows": 6731,
+  "overallMedianPrice": 903000,
+  "intercept": -0.036369,
+  "featureMedians": {
+    "bedrooms": 3,
+    "bathrooms": 1,
+    "buildingArea": 127,
+    "landsize": 403,
+    "yearBuilt": 1970,
+    "garage": 2
+  },
+  "coefficients": {
+    "bedrooms": 0.07976,
+    "bathrooms": 0.088697,
+    "buildingArea": 0.001184,
+    "landsize": 0.000027,
+    "yearBuilt": -0.002953,
+    "garage": 0.023588
+  },
+  "propertyTypeEffects": {
+    "h": 0,
+    "t": -0.093264,
+    "u": -0.32592
+  },
+  "typicalRelativeError": 0.164,
+  "suburbMedianPrices": {
+    "Abbotsford": 1093500,
+    "Aberfeldie": 1300000,
+    "Airport West": 755000,
+    "Albanvale": 540750,
+    "Albert Park": 1900000,
+    "Albion": 613000,
+    "Alphington": 1516000,
+    "Altona": 773500,
+    "Altona Meadows": 685000,
+    "Altona North": 770000,
+    "Ardeer": 645000,
+    "Armadale": 1200000,
+    "Ascot Vale": 1007500,
+    "Ashburton": 1658500,
+    "Ashwood": 1163000,
+    "Aspendale": 1150000,
+    "Aspendale Gardens": 875000,
+    "Attwood": 640000,
+    "Avondale Heights": 769000,
+    "Bacchus Marsh": 285000,
+    "Balaclava": 520000,
+    "Balwyn": 1850000,
+    "Balwyn North": 1739000,
+    "Bayswater": 737500,
+    "Bayswater North": 712000,
+    "Beaconsfield": 603500,
+    "Beaconsfield Upper": 675000,
+    "Beaumaris": 1635500,
+    "Bellfield": 804000,
+    "Bentleigh": 1286000,
+    "Bentleigh East": 1085000,
+    "Berwick": 740000,
+    "Black Rock": 1147500,
+    "Blackburn": 1350000,
+    "Blackburn North": 1225000,
+    "Blackburn South": 1190500,
+    "Bonbeach": 942500,
+    "Boronia": 777500,
+    "Box Hill": 1325000,
+    "Braybrook": 665000,
+    "Briar Hill": 673750,
+    "Brighton": 1773500,
+    "Brighton East": 1590000,
+    "Broadmeadows": 575500,
+    "Brookfield": 456000,
+    "Brooklyn": 555000,
+    "Brunswick": 952500,
+    "Brunswick East": 938500,
+    "Brunswick West": 881250,
+    "Bulleen": 1160000,
+    "Bullengarook": 535000,
+    "Bundoora": 756500,
+    "Burnley": 1202500,
+    "Burnside": 618750,
+    "Burnside Heights": 593000,
+    "Burwood": 1262500,
+    "Burwood East": 1016000,
+    "Cairnlea": 640000,
+    "Camberwell": 1695000,
+    "Campbellfield": 450000,
+    "Canterbury": 1890000,
+    "Carlton": 957000,
+    "Carlton North": 1463000,
+    "Carnegie": 875000,
+    "Caroline Springs": 600000,
+    "Carrum": 687500,
+    "Carrum Downs": 549250,
+    "Caulfield": 644000,
+    "Caulfield East": 1335000,
+    "Caulfield North": 622000,
+    "Caulfield South": 1160500,
+    "Chadstone": 965000,
+    "Chelsea": 750000,
+    "Chelsea Heights": 728500,
+    "Cheltenham": 1073000,
+    "Chirnside Park": 775991,
+    "Clarinda": 929650,
+    "Clayton": 1115000,
+    "Clayton South": 850000,
+    "Clifton Hill": 1180000,
+    "Coburg": 901000,
+    "Coburg North": 780000,
+    "Collingwood": 910000,
+    "Coolaroo": 458500,
+    "Craigieburn": 548000,
+    "Cranbourne": 572000,
+    "Cranbourne North": 585000,
+    "Cremorne": 1000000,
+    "Croydon": 860000,
+    "Croydon Hills": 918000,
+    "Croydon North": 835000,
+    "Croydon South": 800000,
+    "Dallas": 439750,
+    "Dandenong": 583000,
+    "Dandenong North": 622750,
+    "Deepdene": 1195000,
+    "Deer Park": 630750,
+    "Delahey": 555000,
+    "Derrimut": 695000,
+    "Diamond Creek": 856500,
+    "Diggers Rest": 525000,
+    "Dingley Village": 871000,
+    "Docklands": 800000,
+    "Doncaster": 1292500,
+    "Doncaster East": 1385000,
+    "Donvale": 920000,
+    "Doreen": 515250,
+    "Doveton": 500000,
+    "Eaglemont": 1901000,
+    "East Melbourne": 897500,
+    "Edithvale": 875000,
+    "Elsternwick": 1060000,
+    "Eltham": 855000,
+    "Eltham North": 900000,
+    "Elwood": 687500,
+    "Emerald": 655000,
+    "Endeavour Hills": 630000,
+    "Epping": 560500,
+    "Essendon": 1000000,
+    "Essendon North": 792500,
+    "Essendon West": 1080000,
+    "Fairfield": 1125000,
+    "Fawkner": 651250,
+    "Ferntree Gully": 783050,
+    "Fitzroy": 1100000,
+    "Fitzroy North": 1275000,
+    "Flemington": 917500,
+    "Footscray": 751000,
+    "Forest Hill": 1005500,
+    "Frankston": 637000,
+    "Frankston North": 531500,
+    "Frankston South": 885000,
+    "Gardenvale": 922500,
+    "Gisborne": 670000,
+    "Gladstone Park": 656500,
+    "Glen Huntly": 636500,
+    "Glen Iris": 1660000,
+    "Glen Waverley": 1292000,
+    "Glenroy": 670000,
+    "Gowanbrae": 690000,
+    "Greensborough": 816000,
+    "Greenvale": 770000,
+    "Hadfield": 717500,
+    "Hallam": 662500,
+    "Hampton": 1612500,
+    "Hampton East": 1070000,
+    "Hampton Park": 591500,
+    "Hawthorn": 815000,
+    "Hawthorn East": 1465000,
+    "Healesville": 650000,
+    "Heathmont": 916000,
+    "Heidelberg": 835000,
+    "Heidelberg Heights": 710875,
+    "Heidelberg West": 648125,
+    "Highett": 1225000,
+    "Hillside": 648000,
+    "Hoppers Crossing": 540500,
+    "Hughesdale": 1167500,
+    "Huntingdale": 1093800,
+    "Hurstbridge": 695000,
+    "Ivanhoe": 1062500,
+    "Ivanhoe East": 1740000,
+    "Jacana": 551000,
+    "Kealba": 570000,
+    "Keilor": 840000,
+    "Keilor Downs": 680000,
+    "Keilor East": 807000,
+    "Keilor Lodge": 660000,
+    "Keilor Park": 695000,
+    "Kensington": 812000,
+    "Kew": 1528500,
+    "Kew East": 1750000,
+    "Keysborough": 752000,
+    "Kilsyth": 791500,
+    "Kings Park": 530000,
+    "Kingsbury": 705500,
+    "Kingsville": 880000,
+    "Knoxfield": 1055000,
+    "Kooyong": 2185000,
+    "Kurunjang": 353500,
+    "Lalor": 665500,
+    "Langwarrin": 607750,
+    "Lower Plenty": 800000,
+    "Maidstone": 713000,
+    "Malvern": 1611000,
+    "Malvern East": 1500000,
+    "Maribyrnong": 820000,
+    "McKinnon": 1452500,
+    "Meadow Heights": 482000,
+    "Melbourne": 542500,
+    "Melton": 412500,
+    "Melton South": 390000,
+    "Melton West": 428750,
+    "Mentone": 892500,
+    "Mernda": 596000,
+    "Middle Park": 1880000,
+    "Mill Park": 675000,
+    "Mitcham": 965500,
+    "Monbulk": 720000,
+    "Mont Albert": 1583500,
+    "Montmorency": 900000,
+    "Montrose": 735000,
+    "Moonee Ponds": 1130000,
+    "Moorabbin": 977500,
+    "Mooroolbark": 725000,
+    "Mordialloc": 1197500,
+    "Mount Evelyn": 567500,
+    "Mount Waverley": 1387000,
+    "Mulgrave": 902000,
+    "Murrumbeena": 910250,
+    "Narre Warren": 650000,
+    "New Gisborne": 1355000,
+    "Newport": 970000,
+    "Niddrie": 965000,
+    "Noble Park": 668000,
+    "North Melbourne": 780000,
+    "North Warrandyte": 1226000,
+    "Northcote": 1255000,
+    "Notting Hill": 1075000,
+    "Nunawading": 1021000,
+    "Oak Park": 821000,
+    "Oakleigh": 1050000,
+    "Oakleigh East": 1150000,
+    "Oakleigh South": 968000,
+    "Officer": 559000,
+    "Ormond": 1005500,
+    "Pakenham": 435000,
+    "Parkdale": 1260000,
+    "Parkville": 1040000,
+    "Pascoe Vale": 767000,
+    "Plumpton": 625500,
+    "Point Cook": 635000,
+    "Port Melbourne": 1150000,
+    "Prahran": 1055000,
+    "Preston": 910000,
+    "Princes Hill": 1700000,
+    "Reservoir": 685000,
+    "Richmond": 1078000,
+    "Riddells Creek": 817000,
+    "Ringwood": 920000,
+    "Ringwood East": 855000,
+    "Ringwood North": 927500,
+    "Ripponlea": 605000,
+    "Rockbank": 340000,
+    "Rosanna": 971000,
+    "Rowville": 865000,
+    "Roxburgh Park": 490000,
+    "Sandhurst": 645000,
+    "Sandringham": 1710000,
+    "Scoresby": 956000,
+    "Seabrook": 590000,
+    "Seaford": 769000,
+    "Seaholme": 1385000,
+    "Seddon": 947500,
+    "Silvan": 1077500,
+    "Skye": 597849,
+    "South Kingsville": 802500,
+    "South Melbourne": 1200000,
+    "South Morang": 612000,
+    "South Yarra": 802000,
+    "Southbank": 600000,
+    "Spotswood": 871500,
+    "Springvale": 770000,
+    "Springvale South": 750000,
+    "St Albans": 610000,
+    "St Helena": 897000,
+    "St Kilda": 570000,
+    "Strathmore": 1150000,
+    "Strathmore Heights": 941000,
+    "Sunbury": 496750,
+    "Sunshine": 702000,
+    "Sunshine North": 650000,
+    "Sunshine West": 591500,
+    "Surrey Hills": 1650000,
+    "Sydenham": 620000,
+    "Tarneit": 500500,
+    "Taylors Hill": 605500,
+    "Taylors Lakes": 710000,
+    "Templestowe": 1450000,
+    "Templestowe Lower": 1181750,
+    "The Basin": 580600,
+    "Thomastown": 640000,
+    "Thornbury": 998000,
+    "Toorak": 937500,
+    "Travancore": 978000,
+    "Truganina": 451000,
+    "Tullamarine": 586000,
+    "Upwey": 575000,
+    "Vermont": 1076250,
+    "Vermont South": 1250000,
+    "Viewbank": 920000,
+    "Wallan": 366000,
+    "Wantirna": 975500,
+    "Wantirna South": 1107500,
+    "Warrandyte": 1200000,
+    "Waterways": 1248500,
+    "Watsonia": 720000,
+    "Watsonia North": 747500,
+    "Werribee": 490000,
+    "West Footscray": 840000,
+    "West Melbourne": 995000,
+    "Westmeadows": 599000,
+    "Wheelers Hill": 1203000,
+    "Whittlesea": 601000,
+    "Williams Landing": 532500,
+    "Williamstown": 1262000,
+    "Williamstown North": 862000,
+    "Windsor": 817500,
+    "Wollert": 525000,
+    "Wonga Park": 900000,
+    "Wyndham Vale": 479000,
+    "Yallambie": 773000,
+    "Yarra Glen": 620000,
+    "Yarraville": 953000
+  }
+};
@@ -1,4 +1,6 @@
 
+import { fallbackModel } from './fallbackModel';
+
 export interface FeatureImportance {
   feature: string;
   importance: number;
@@ -18,18 +20,17 @@ export const featureImportances: FeatureImportance[] = [
   { feature: "kitchenQuality", importance: 0.01, displayName: "Kitchen Quality" },
 ];
 
-export const neighborhoods = [
-  "Downtown",
-  "Suburban Heights",
-  "Riverside",
-  "West End",
-  "North Hills",
-  "Oak Park",
-  "Maplewood",
-  "Cedar Ridge",
-  "Brookside",
-  "Highland Park",
-];
+// Every suburb in the Melbourne dataset, used when the backend cannot supply the list
+export const neighborhoods = Object.keys(fallbackModel.suburbMedianPrices);
+
+// Property type codes used by the dataset and the backend model
+export const propertyTypeLabels: Record<string, string> = {
+  h: "House",
+  u: "Unit",
+  t: "Townhouse",
+};
+
+export const propertyTypes = Object.keys(propertyTypeLabels);
 
 export interface HouseData {
   bedrooms: number;
@@ -45,15 +46,60 @@ export interface HouseData {
   kitchenQuality?: number;
 }
 
+export const houseDataFields: (keyof HouseData)[] = [
+  'squareFootage', 'bedrooms', 'bathrooms', 'yearBuilt', 'neighborhood', 'lotSize',
+  'garage', 'propertyType', 'basement', 'centralAir', 'kitchenQuality'
+];
+
+// Accepted input ranges, in HouseData units (square feet, acres)
+export const houseDataLimits = {
+  bedrooms: { min: 1, max: 10, step: 1 },
+  bathrooms: { min: 1, max: 7, step: 0.5 },
+  squareFootage: { min: 500, max: 10000, step: 1 },
+  yearBuilt: { min: 1800, step: 1 },
+  lotSize: { min: 0.1, max: 2, step: 0.01 },
+  garage: { min: 0, max: 4, step: 1 },
+  kitchenQuality: { min: 1, max: 5, step: 1 },
+};
+
+// A price with the band it is expected to fall within
+export interface PriceRange {
+  low: number;
+  high: number;
+  // Share of outcomes expected inside the band (0-1), when known
+  level?: number;
+}
+
+// How much the backend's trees agree on a prediction
+export type PredictionConfidence = 'high' | 'medium' | 'low';
+
+// How much one input moved the price away from the baseline
+export interface FeatureContribution {
+  feature: string;
+  contribution: number;
+}
+
+// The baseline price plus every contribution adds up to the estimate
+export interface PriceExplanation {
+  baseline: number;
+  contributions: FeatureContribution[];
+}
+
+export interface PriceEstimate extends PriceRange {
+  price: number;
+  explanation: PriceExplanation;
+}
+
 // Default values for the house form
 export const defaultHouseData: HouseData = {
   squareFootage: 2000,
   bedrooms: 3,
   bathrooms: 2,
   yearBuilt: 2000,
-  neighborhood: "Suburban Heights",
+  neighborhood: "Reservoir",
   lotSize: 0.25,
   garage: 2,
+  propertyType: "h",
   basement: true,
   centralAir: true,
   kitchenQuality: 4,
@@ -0,0 +1,57 @@
+import { fallbackModel } from './fallbackModel';
+import { HouseData, defaultHouseData, houseDataLimits } from './modelData';
+import { SQUARE_METRES_PER_ACRE, SQUARE_METRES_PER_SQUARE_FOOT } from '../utils/units';
+
+export interface PropertyTemplate {
+  name: string;
+  description: string;
+  values: HouseData;
+}
+
+const clamp = (value: number, { min, max }: { min: number; max: number }) => Math.min(Math.max(value, min), max);
+
+// The dataset's median sale, converted to HouseData units and kept within the form's limits
+const { featureMedians } = fallbackModel;
+const medianHome: HouseData = {
+  ...defaultHouseData,
+  bedrooms: featureMedians.bedrooms,
+  bathrooms: featureMedians.bathrooms,
+  squareFootage: Math.round(clamp(featureMedians.buildingArea / SQUARE_METRES_PER_SQUARE_FOOT, houseDataLimits.squareFootage)),
+  lotSize: Number(clamp(featureMedians.landsize / SQUARE_METRES_PER_ACRE, houseDataLimits.lotSize).toFixed(2)),
+  yearBuilt: featureMedians.yearBuilt,
+  garage: featureMedians.garage,
+  basement: false,
+  centralAir: false,
+  kitchenQuality: 3,
+};
+
+// Built-in starting points offered alongside the user's own presets
+export const propertyTemplates: PropertyTemplate[] = [
+  {
+    name: "Family house in the suburbs",
+    description: "The form's default details",
+    values: defaultHouseData,
+  },
+  {
+    name: "Median Melbourne sale",
+    description: "Median features across the Melbourne dataset",
+    values: medianHome,
+  },
+  {
+    name: "Inner-city unit",
+    description: "A compact, newer unit close to the CBD",
+    values: {
+      ...medianHome,
+      neighborhood: "Richmond",
+      propertyType: "u",
+      bedrooms: 2,
+      bathrooms: 1,
+      squareFootage: 800,
+      lotSize: houseDataLimits.lotSize.min,
+      yearBuilt: 2010,
+      garage: 1,
+      centralAir: true,
+      kitchenQuality: 4,
+    },
+  },
+];
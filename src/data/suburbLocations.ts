@@ -0,0 +1,1267 @@
+// Generated by scripts/generate-suburb-locations.mjs from backend/data/melb_data.csv.
+// Do not edit by hand; rerun `npm run generate:suburb-locations` when the dataset changes.
+
+export interface SuburbLocation {
+  region: string;
+  // Missing for suburbs whose sales never recorded one
+  councilArea: string | null;
+}
+
+export const suburbLocations: Record<string, SuburbLocation> = {
+  "Abbotsford": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Yarra"
+  },
+  "Aberfeldie": {
+    "region": "Western Metropolitan",
+    "councilArea": "Moonee Valley"
+  },
+  "Airport West": {
+    "region": "Western Metropolitan",
+    "councilArea": "Moonee Valley"
+  },
+  "Albanvale": {
+    "region": "Western Metropolitan",
+    "councilArea": "Brimbank"
+  },
+  "Albert Park": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Port Phillip"
+  },
+  "Albion": {
+    "region": "Western Metropolitan",
+    "councilArea": "Brimbank"
+  },
+  "Alphington": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Darebin"
+  },
+  "Altona": {
+    "region": "Western Metropolitan",
+    "councilArea": "Hobsons Bay"
+  },
+  "Altona Meadows": {
+    "region": "Western Metropolitan",
+    "councilArea": "Hobsons Bay"
+  },
+  "Altona North": {
+    "region": "Western Metropolitan",
+    "councilArea": "Hobsons Bay"
+  },
+  "Ardeer": {
+    "region": "Western Metropolitan",
+    "councilArea": "Brimbank"
+  },
+  "Armadale": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Stonnington"
+  },
+  "Ascot Vale": {
+    "region": "Western Metropolitan",
+    "councilArea": "Moonee Valley"
+  },
+  "Ashburton": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Boroondara"
+  },
+  "Ashwood": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Monash"
+  },
+  "Aspendale": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Kingston"
+  },
+  "Aspendale Gardens": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Kingston"
+  },
+  "Attwood": {
+    "region": "Northern Metropolitan",
+    "councilArea": null
+  },
+  "Avondale Heights": {
+    "region": "Western Metropolitan",
+    "councilArea": "Moonee Valley"
+  },
+  "Bacchus Marsh": {
+    "region": "Western Victoria",
+    "councilArea": "Moorabool"
+  },
+  "Balaclava": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Port Phillip"
+  },
+  "Balwyn": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Boroondara"
+  },
+  "Balwyn North": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Boroondara"
+  },
+  "Bayswater": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Knox"
+  },
+  "Bayswater North": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Maroondah"
+  },
+  "Beaconsfield": {
+    "region": "Eastern Victoria",
+    "councilArea": "Cardinia"
+  },
+  "Beaconsfield Upper": {
+    "region": "Eastern Victoria",
+    "councilArea": "Cardinia"
+  },
+  "Beaumaris": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Bayside"
+  },
+  "Bellfield": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Banyule"
+  },
+  "Bentleigh": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Glen Eira"
+  },
+  "Bentleigh East": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Glen Eira"
+  },
+  "Berwick": {
+    "region": "Eastern Victoria",
+    "councilArea": "Casey"
+  },
+  "Black Rock": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Bayside"
+  },
+  "Blackburn": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Whitehorse"
+  },
+  "Blackburn North": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Whitehorse"
+  },
+  "Blackburn South": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Whitehorse"
+  },
+  "Bonbeach": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Kingston"
+  },
+  "Boronia": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Knox"
+  },
+  "Box Hill": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Whitehorse"
+  },
+  "Braybrook": {
+    "region": "Western Metropolitan",
+    "councilArea": "Maribyrnong"
+  },
+  "Briar Hill": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Banyule"
+  },
+  "Brighton": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Bayside"
+  },
+  "Brighton East": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Bayside"
+  },
+  "Broadmeadows": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Hume"
+  },
+  "Brookfield": {
+    "region": "Western Victoria",
+    "councilArea": "Melton"
+  },
+  "Brooklyn": {
+    "region": "Western Metropolitan",
+    "councilArea": "Hobsons Bay"
+  },
+  "Brunswick": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Moreland"
+  },
+  "Brunswick East": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Moreland"
+  },
+  "Brunswick West": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Moreland"
+  },
+  "Bulleen": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Manningham"
+  },
+  "Bullengarook": {
+    "region": "Northern Victoria",
+    "councilArea": "Macedon Ranges"
+  },
+  "Bundoora": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Banyule"
+  },
+  "Burnley": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Yarra"
+  },
+  "Burnside": {
+    "region": "Western Metropolitan",
+    "councilArea": null
+  },
+  "Burnside Heights": {
+    "region": "Western Metropolitan",
+    "councilArea": "Melton"
+  },
+  "Burwood": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Whitehorse"
+  },
+  "Burwood East": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Whitehorse"
+  },
+  "Cairnlea": {
+    "region": "Western Metropolitan",
+    "councilArea": "Brimbank"
+  },
+  "Camberwell": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Boroondara"
+  },
+  "Campbellfield": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Hume"
+  },
+  "Canterbury": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Boroondara"
+  },
+  "Carlton": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Melbourne"
+  },
+  "Carlton North": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Yarra"
+  },
+  "Carnegie": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Glen Eira"
+  },
+  "Caroline Springs": {
+    "region": "Western Metropolitan",
+    "councilArea": "Melton"
+  },
+  "Carrum": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Kingston"
+  },
+  "Carrum Downs": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Frankston"
+  },
+  "Caulfield": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Glen Eira"
+  },
+  "Caulfield East": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Glen Eira"
+  },
+  "Caulfield North": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Glen Eira"
+  },
+  "Caulfield South": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Glen Eira"
+  },
+  "Chadstone": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Monash"
+  },
+  "Chelsea": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Kingston"
+  },
+  "Chelsea Heights": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Kingston"
+  },
+  "Cheltenham": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Kingston"
+  },
+  "Chirnside Park": {
+    "region": "Eastern Victoria",
+    "councilArea": "Yarra Ranges"
+  },
+  "Clarinda": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Kingston"
+  },
+  "Clayton": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Monash"
+  },
+  "Clayton South": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Kingston"
+  },
+  "Clifton Hill": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Yarra"
+  },
+  "Coburg": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Moreland"
+  },
+  "Coburg North": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Moreland"
+  },
+  "Collingwood": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Yarra"
+  },
+  "Coolaroo": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Hume"
+  },
+  "Craigieburn": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Hume"
+  },
+  "Cranbourne": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Casey"
+  },
+  "Cranbourne North": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Casey"
+  },
+  "Cremorne": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Yarra"
+  },
+  "Croydon": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Maroondah"
+  },
+  "Croydon Hills": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Maroondah"
+  },
+  "Croydon North": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Maroondah"
+  },
+  "Croydon South": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Maroondah"
+  },
+  "Dallas": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Hume"
+  },
+  "Dandenong": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Greater Dandenong"
+  },
+  "Dandenong North": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Greater Dandenong"
+  },
+  "Deepdene": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Boroondara"
+  },
+  "Deer Park": {
+    "region": "Western Metropolitan",
+    "councilArea": "Brimbank"
+  },
+  "Delahey": {
+    "region": "Western Metropolitan",
+    "councilArea": "Brimbank"
+  },
+  "Derrimut": {
+    "region": "Western Metropolitan",
+    "councilArea": "Brimbank"
+  },
+  "Diamond Creek": {
+    "region": "Northern Victoria",
+    "councilArea": "Nillumbik"
+  },
+  "Diggers Rest": {
+    "region": "Western Metropolitan",
+    "councilArea": "Melton"
+  },
+  "Dingley Village": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Kingston"
+  },
+  "Docklands": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Melbourne"
+  },
+  "Doncaster": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Manningham"
+  },
+  "Doncaster East": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Manningham"
+  },
+  "Donvale": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Manningham"
+  },
+  "Doreen": {
+    "region": "Northern Victoria",
+    "councilArea": "Whittlesea"
+  },
+  "Doveton": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Casey"
+  },
+  "Eaglemont": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Banyule"
+  },
+  "East Melbourne": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Melbourne"
+  },
+  "Edithvale": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Kingston"
+  },
+  "Elsternwick": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Glen Eira"
+  },
+  "Eltham": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Nillumbik"
+  },
+  "Eltham North": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Nillumbik"
+  },
+  "Elwood": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Port Phillip"
+  },
+  "Emerald": {
+    "region": "Eastern Victoria",
+    "councilArea": "Cardinia"
+  },
+  "Endeavour Hills": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Casey"
+  },
+  "Epping": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Whittlesea"
+  },
+  "Essendon": {
+    "region": "Western Metropolitan",
+    "councilArea": "Moonee Valley"
+  },
+  "Essendon North": {
+    "region": "Western Metropolitan",
+    "councilArea": "Moonee Valley"
+  },
+  "Essendon West": {
+    "region": "Western Metropolitan",
+    "councilArea": "Moonee Valley"
+  },
+  "Fairfield": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Darebin"
+  },
+  "Fawkner": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Moreland"
+  },
+  "Ferntree Gully": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Knox"
+  },
+  "Fitzroy": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Yarra"
+  },
+  "Fitzroy North": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Yarra"
+  },
+  "Flemington": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Moonee Valley"
+  },
+  "Footscray": {
+    "region": "Western Metropolitan",
+    "councilArea": "Maribyrnong"
+  },
+  "Forest Hill": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Whitehorse"
+  },
+  "Frankston": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Frankston"
+  },
+  "Frankston North": {
+    "region": "Eastern Victoria",
+    "councilArea": "Frankston"
+  },
+  "Frankston South": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Frankston"
+  },
+  "Gardenvale": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Glen Eira"
+  },
+  "Gisborne": {
+    "region": "Northern Victoria",
+    "councilArea": "Macedon Ranges"
+  },
+  "Gladstone Park": {
+    "region": "Western Metropolitan",
+    "councilArea": "Hume"
+  },
+  "Glen Huntly": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Glen Eira"
+  },
+  "Glen Iris": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Boroondara"
+  },
+  "Glen Waverley": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Monash"
+  },
+  "Glenroy": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Moreland"
+  },
+  "Gowanbrae": {
+    "region": "Western Metropolitan",
+    "councilArea": "Moreland"
+  },
+  "Greensborough": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Banyule"
+  },
+  "Greenvale": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Hume"
+  },
+  "Hadfield": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Moreland"
+  },
+  "Hallam": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Casey"
+  },
+  "Hampton": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Bayside"
+  },
+  "Hampton East": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Bayside"
+  },
+  "Hampton Park": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Casey"
+  },
+  "Hawthorn": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Boroondara"
+  },
+  "Hawthorn East": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Boroondara"
+  },
+  "Healesville": {
+    "region": "Northern Victoria",
+    "councilArea": "Yarra Ranges"
+  },
+  "Heathmont": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Maroondah"
+  },
+  "Heidelberg": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Banyule"
+  },
+  "Heidelberg Heights": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Banyule"
+  },
+  "Heidelberg West": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Banyule"
+  },
+  "Highett": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Bayside"
+  },
+  "Hillside": {
+    "region": "Western Metropolitan",
+    "councilArea": "Melton"
+  },
+  "Hoppers Crossing": {
+    "region": "Western Metropolitan",
+    "councilArea": "Wyndham"
+  },
+  "Hughesdale": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Monash"
+  },
+  "Huntingdale": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Monash"
+  },
+  "Hurstbridge": {
+    "region": "Northern Victoria",
+    "councilArea": "Nillumbik"
+  },
+  "Ivanhoe": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Banyule"
+  },
+  "Ivanhoe East": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Banyule"
+  },
+  "Jacana": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Hume"
+  },
+  "Kealba": {
+    "region": "Western Metropolitan",
+    "councilArea": "Brimbank"
+  },
+  "Keilor": {
+    "region": "Western Metropolitan",
+    "councilArea": "Brimbank"
+  },
+  "Keilor Downs": {
+    "region": "Western Metropolitan",
+    "councilArea": "Brimbank"
+  },
+  "Keilor East": {
+    "region": "Western Metropolitan",
+    "councilArea": "Moonee Valley"
+  },
+  "Keilor Lodge": {
+    "region": "Western Metropolitan",
+    "councilArea": "Brimbank"
+  },
+  "Keilor Park": {
+    "region": "Western Metropolitan",
+    "councilArea": "Brimbank"
+  },
+  "Kensington": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Melbourne"
+  },
+  "Kew": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Boroondara"
+  },
+  "Kew East": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Boroondara"
+  },
+  "Keysborough": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Greater Dandenong"
+  },
+  "Kilsyth": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Maroondah"
+  },
+  "Kings Park": {
+    "region": "Western Metropolitan",
+    "councilArea": "Brimbank"
+  },
+  "Kingsbury": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Darebin"
+  },
+  "Kingsville": {
+    "region": "Western Metropolitan",
+    "councilArea": "Maribyrnong"
+  },
+  "Knoxfield": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Knox"
+  },
+  "Kooyong": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Stonnington"
+  },
+  "Kurunjang": {
+    "region": "Northern Victoria",
+    "councilArea": "Melton"
+  },
+  "Lalor": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Whittlesea"
+  },
+  "Langwarrin": {
+    "region": "Eastern Victoria",
+    "councilArea": "Frankston"
+  },
+  "Lower Plenty": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Banyule"
+  },
+  "Maidstone": {
+    "region": "Western Metropolitan",
+    "councilArea": "Maribyrnong"
+  },
+  "Malvern": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Stonnington"
+  },
+  "Malvern East": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Stonnington"
+  },
+  "Maribyrnong": {
+    "region": "Western Metropolitan",
+    "councilArea": "Maribyrnong"
+  },
+  "McKinnon": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Glen Eira"
+  },
+  "Meadow Heights": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Hume"
+  },
+  "Melbourne": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Melbourne"
+  },
+  "Melton": {
+    "region": "Western Victoria",
+    "councilArea": "Melton"
+  },
+  "Melton South": {
+    "region": "Western Victoria",
+    "councilArea": "Melton"
+  },
+  "Melton West": {
+    "region": "Northern Victoria",
+    "councilArea": "Melton"
+  },
+  "Mentone": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Kingston"
+  },
+  "Mernda": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Whittlesea"
+  },
+  "Middle Park": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Port Phillip"
+  },
+  "Mill Park": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Whittlesea"
+  },
+  "Mitcham": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Whitehorse"
+  },
+  "Monbulk": {
+    "region": "Eastern Victoria",
+    "councilArea": null
+  },
+  "Mont Albert": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Whitehorse"
+  },
+  "Montmorency": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Banyule"
+  },
+  "Montrose": {
+    "region": "Eastern Victoria",
+    "councilArea": "Yarra Ranges"
+  },
+  "Moonee Ponds": {
+    "region": "Western Metropolitan",
+    "councilArea": "Moonee Valley"
+  },
+  "Moorabbin": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Kingston"
+  },
+  "Mooroolbark": {
+    "region": "Eastern Victoria",
+    "councilArea": "Yarra Ranges"
+  },
+  "Mordialloc": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Kingston"
+  },
+  "Mount Evelyn": {
+    "region": "Eastern Victoria",
+    "councilArea": "Yarra Ranges"
+  },
+  "Mount Waverley": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Monash"
+  },
+  "Mulgrave": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Monash"
+  },
+  "Murrumbeena": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Glen Eira"
+  },
+  "Narre Warren": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Casey"
+  },
+  "New Gisborne": {
+    "region": "Northern Victoria",
+    "councilArea": null
+  },
+  "Newport": {
+    "region": "Western Metropolitan",
+    "councilArea": "Hobsons Bay"
+  },
+  "Niddrie": {
+    "region": "Western Metropolitan",
+    "councilArea": "Moonee Valley"
+  },
+  "Noble Park": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Greater Dandenong"
+  },
+  "North Melbourne": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Melbourne"
+  },
+  "North Warrandyte": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Nillumbik"
+  },
+  "Northcote": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Darebin"
+  },
+  "Notting Hill": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Monash"
+  },
+  "Nunawading": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Whitehorse"
+  },
+  "Oak Park": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Moreland"
+  },
+  "Oakleigh": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Monash"
+  },
+  "Oakleigh East": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Monash"
+  },
+  "Oakleigh South": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Monash"
+  },
+  "Officer": {
+    "region": "Eastern Victoria",
+    "councilArea": "Cardinia"
+  },
+  "Ormond": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Glen Eira"
+  },
+  "Pakenham": {
+    "region": "Eastern Victoria",
+    "councilArea": "Cardinia"
+  },
+  "Parkdale": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Kingston"
+  },
+  "Parkville": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Melbourne"
+  },
+  "Pascoe Vale": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Moreland"
+  },
+  "Plumpton": {
+    "region": "Western Metropolitan",
+    "councilArea": null
+  },
+  "Point Cook": {
+    "region": "Western Metropolitan",
+    "councilArea": "Wyndham"
+  },
+  "Port Melbourne": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Port Phillip"
+  },
+  "Prahran": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Stonnington"
+  },
+  "Preston": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Darebin"
+  },
+  "Princes Hill": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Yarra"
+  },
+  "Reservoir": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Darebin"
+  },
+  "Richmond": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Yarra"
+  },
+  "Riddells Creek": {
+    "region": "Northern Victoria",
+    "councilArea": "Macedon Ranges"
+  },
+  "Ringwood": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Maroondah"
+  },
+  "Ringwood East": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Maroondah"
+  },
+  "Ringwood North": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Maroondah"
+  },
+  "Ripponlea": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Port Phillip"
+  },
+  "Rockbank": {
+    "region": "Western Metropolitan",
+    "councilArea": "Melton"
+  },
+  "Rosanna": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Banyule"
+  },
+  "Rowville": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Knox"
+  },
+  "Roxburgh Park": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Hume"
+  },
+  "Sandhurst": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Frankston"
+  },
+  "Sandringham": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Bayside"
+  },
+  "Scoresby": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Knox"
+  },
+  "Seabrook": {
+    "region": "Western Metropolitan",
+    "councilArea": "Hobsons Bay"
+  },
+  "Seaford": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Frankston"
+  },
+  "Seaholme": {
+    "region": "Western Metropolitan",
+    "councilArea": "Hobsons Bay"
+  },
+  "Seddon": {
+    "region": "Western Metropolitan",
+    "councilArea": "Maribyrnong"
+  },
+  "Silvan": {
+    "region": "Eastern Victoria",
+    "councilArea": "Yarra Ranges"
+  },
+  "Skye": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Frankston"
+  },
+  "South Kingsville": {
+    "region": "Western Metropolitan",
+    "councilArea": "Hobsons Bay"
+  },
+  "South Melbourne": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Port Phillip"
+  },
+  "South Morang": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Whittlesea"
+  },
+  "South Yarra": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Stonnington"
+  },
+  "Southbank": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Melbourne"
+  },
+  "Spotswood": {
+    "region": "Western Metropolitan",
+    "councilArea": "Hobsons Bay"
+  },
+  "Springvale": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Greater Dandenong"
+  },
+  "Springvale South": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Greater Dandenong"
+  },
+  "St Albans": {
+    "region": "Western Metropolitan",
+    "councilArea": "Brimbank"
+  },
+  "St Helena": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Banyule"
+  },
+  "St Kilda": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Port Phillip"
+  },
+  "Strathmore": {
+    "region": "Western Metropolitan",
+    "councilArea": "Moonee Valley"
+  },
+  "Strathmore Heights": {
+    "region": "Western Metropolitan",
+    "councilArea": "Moonee Valley"
+  },
+  "Sunbury": {
+    "region": "Western Metropolitan",
+    "councilArea": "Hume"
+  },
+  "Sunshine": {
+    "region": "Western Metropolitan",
+    "councilArea": "Brimbank"
+  },
+  "Sunshine North": {
+    "region": "Western Metropolitan",
+    "councilArea": "Brimbank"
+  },
+  "Sunshine West": {
+    "region": "Western Metropolitan",
+    "councilArea": "Brimbank"
+  },
+  "Surrey Hills": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Boroondara"
+  },
+  "Sydenham": {
+    "region": "Western Metropolitan",
+    "councilArea": "Brimbank"
+  },
+  "Tarneit": {
+    "region": "Western Metropolitan",
+    "councilArea": "Wyndham"
+  },
+  "Taylors Hill": {
+    "region": "Western Metropolitan",
+    "councilArea": "Melton"
+  },
+  "Taylors Lakes": {
+    "region": "Western Metropolitan",
+    "councilArea": "Brimbank"
+  },
+  "Templestowe": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Manningham"
+  },
+  "Templestowe Lower": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Manningham"
+  },
+  "The Basin": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Knox"
+  },
+  "Thomastown": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Whittlesea"
+  },
+  "Thornbury": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Darebin"
+  },
+  "Toorak": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Stonnington"
+  },
+  "Travancore": {
+    "region": "Western Metropolitan",
+    "councilArea": "Moonee Valley"
+  },
+  "Truganina": {
+    "region": "Western Metropolitan",
+    "councilArea": "Wyndham"
+  },
+  "Tullamarine": {
+    "region": "Western Metropolitan",
+    "councilArea": "Hume"
+  },
+  "Upwey": {
+    "region": "Eastern Victoria",
+    "councilArea": "Yarra Ranges"
+  },
+  "Vermont": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Whitehorse"
+  },
+  "Vermont South": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Whitehorse"
+  },
+  "Viewbank": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Banyule"
+  },
+  "Wallan": {
+    "region": "Northern Victoria",
+    "councilArea": null
+  },
+  "Wantirna": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Knox"
+  },
+  "Wantirna South": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Knox"
+  },
+  "Warrandyte": {
+    "region": "Eastern Metropolitan",
+    "councilArea": "Manningham"
+  },
+  "Waterways": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Kingston"
+  },
+  "Watsonia": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Banyule"
+  },
+  "Watsonia North": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Banyule"
+  },
+  "Werribee": {
+    "region": "Western Metropolitan",
+    "councilArea": "Wyndham"
+  },
+  "West Footscray": {
+    "region": "Western Metropolitan",
+    "councilArea": "Maribyrnong"
+  },
+  "West Melbourne": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Melbourne"
+  },
+  "Westmeadows": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Hume"
+  },
+  "Wheelers Hill": {
+    "region": "South-Eastern Metropolitan",
+    "councilArea": "Monash"
+  },
+  "Whittlesea": {
+    "region": "Northern Victoria",
+    "councilArea": "Whittlesea"
+  },
+  "Williams Landing": {
+    "region": "Western Metropolitan",
+    "councilArea": "Wyndham"
+  },
+  "Williamstown": {
+    "region": "Western Metropolitan",
+    "councilArea": "Hobsons Bay"
+  },
+  "Williamstown North": {
+    "region": "Western Metropolitan",
+    "councilArea": "Hobsons Bay"
+  },
+  "Windsor": {
+    "region": "Southern Metropolitan",
+    "councilArea": "Stonnington"
+  },
+  "Wollert": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Whittlesea"
+  },
+  "Wonga Park": {
+    "region": "Eastern Victoria",
+    "councilArea": "Manningham"
+  },
+  "Wyndham Vale": {
+    "region": "Western Metropolitan",
+    "councilArea": "Wyndham"
+  },
+  "Yallambie": {
+    "region": "Northern Metropolitan",
+    "councilArea": "Banyule"
+  },
+  "Yarra Glen": {
+    "region": "Northern Victoria",
+    "councilArea": "Yarra Ranges"
+  },
+  "Yarraville": {
+    "region": "Western Metropolitan",
+    "councilArea": "Maribyrnong"
+  }
+};
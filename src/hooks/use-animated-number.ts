@@ -0,0 +1,34 @@
+import * as React from "react"
+
+const ANIMATION_MS = 500
+
+const prefersReducedMotion = () =>
+  typeof window !== "undefined" && window.matchMedia?.("(prefers-reduced-motion: reduce)").matches
+
+// Tween from the previous value to `value` with an ease-out curve. Jumps
+// straight there when starting from nothing or when motion is reduced.
+export function useAnimatedNumber(value: number | null, durationMs = ANIMATION_MS): number | null {
+  const [displayed, setDisplayed] = React.useState(value)
+  const displayedRef = React.useRef(value)
+
+  React.useEffect(() => {
+    const from = displayedRef.current
+    if (value === null || from === null || from === value || prefersReducedMotion()) {
+      displayedRef.current = value
+      setDisplayed(value)
+      return
+    }
+
+    const startedAt = performance.now()
+    let frame = requestAnimationFrame(function step(now) {
+      const progress = Math.min(1, (now - startedAt) / durationMs)
+      const eased = 1 - (1 - progress) ** 3
+      displayedRef.current = from + (value - from) * eased
+      setDisplayed(displayedRef.current)
+      if (progress < 1) frame = requestAnimationFrame(step)
+    })
+    return () => cancelAnimationFrame(frame)
+  }, [value, durationMs])
+
+  return displayed
+}
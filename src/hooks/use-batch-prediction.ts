@@ -0,0 +1,114 @@
+import * as React from "react"
+import { useQueryClient } from "@tanstack/react-query"
+
+import { ApiRequestError, isBackendUnavailable } from "@/utils/api"
+import { describeApiFailure } from "@/utils/apiMessages"
+import { BatchResult, BatchRow, runWithConcurrency } from "@/utils/batch"
+import { datasetHouseDataSchema } from "@/utils/schemas"
+import { useBrowserModel } from "./use-browser-model"
+import { resolvePrediction } from "./use-prediction"
+
+// Requests in flight against /api/predict at any time
+export const BATCH_CONCURRENCY = 4
+
+// Minimum time between progress renders, so large files stay responsive
+const PUBLISH_INTERVAL_MS = 100
+
+export interface BatchProgress {
+  completed: number
+  total: number
+}
+
+// Predicts every valid row, using the backend when it is ready and the local
+// estimator per row otherwise. Invalid rows are reported with their errors.
+export function useBatchPrediction() {
+  const queryClient = useQueryClient()
+  const controllerRef = React.useRef<AbortController | null>(null)
+  const [results, setResults] = React.useState<(BatchResult | undefined)[]>([])
+  const [progress, setProgress] = React.useState<BatchProgress | null>(null)
+  const [isRunning, setIsRunning] = React.useState(false)
+
+  // Make sure a model trained in this browser is loaded for the fallback
+  useBrowserModel()
+
+  React.useEffect(() => () => controllerRef.current?.abort(), [])
+
+  const run = React.useCallback(
+    async (rows: BatchRow[]) => {
+      controllerRef.current?.abort()
+      const controller = new AbortController()
+      controllerRef.current = controller
+
+      const output: (BatchResult | undefined)[] = rows.map((row) =>
+        row.data ? undefined : { price: null, range: null, source: null, error: row.errors.join("; ") }
+      )
+      const pending = rows.flatMap((row, index) => (row.data ? [index] : []))
+      let completed = 0
+      let lastPublished = 0
+      // Once the backend is found to be down, the remaining rows go straight to the fallback
+      let allowApi = true
+
+      const publish = () => {
+        lastPublished = Date.now()
+        setResults([...output])
+        setProgress({ completed, total: pending.length })
+      }
+
+      setIsRunning(true)
+      publish()
+
+      await runWithConcurrency(
+        pending,
+        BATCH_CONCURRENCY,
+        async (index) => {
+          try {
+            const outcome = await resolvePrediction(queryClient, rows[index].data, {
+              signal: controller.signal,
+              inputSchema: rows[index].datasetRanges ? datasetHouseDataSchema : undefined,
+              allowApi,
+            })
+            if (outcome.failure && isBackendUnavailable(outcome.failure)) {
+              allowApi = false
+            }
+            output[index] = {
+              price: outcome.price,
+              range: outcome.range,
+              source: outcome.source,
+              error: outcome.failure ? `API failed (${describeApiFailure(outcome.failure).title}); used fallback` : null,
+            }
+          } catch (error) {
+            if (error instanceof ApiRequestError && error.failure.kind === "aborted") return
+            const message =
+              error instanceof ApiRequestError ? describeApiFailure(error.failure).description : String(error)
+            output[index] = { price: null, range: null, source: null, error: message }
+          }
+          completed += 1
+          if (Date.now() - lastPublished >= PUBLISH_INTERVAL_MS) publish()
+        },
+        controller.signal
+      )
+
+      // A cancelled run keeps its partial results; a reset or newer run discards them
+      if (controllerRef.current === controller) {
+        publish()
+        setIsRunning(false)
+      }
+      return output
+    },
+    [queryClient]
+  )
+
+  const cancel = React.useCallback(() => {
+    controllerRef.current?.abort()
+  }, [])
+
+  const reset = React.useCallback(() => {
+    controllerRef.current?.abort()
+    controllerRef.current = null
+    setIsRunning(false)
+    setResults([])
+    setProgress(null)
+  }, [])
+
+  return { run, cancel, reset, results, progress, isRunning }
+}
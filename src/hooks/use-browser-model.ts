@@ -0,0 +1,63 @@
+import * as React from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+
+import { BrowserModelParams } from "@/utils/browserModel"
+import {
+  clearBrowserModel,
+  fetchBundledDataset,
+  loadBrowserModel,
+  saveBrowserModel,
+  trainInWorker,
+} from "@/utils/browserModelStore"
+
+export const BROWSER_MODEL_QUERY_KEY = ["browser-model"] as const
+
+export interface TrainingState {
+  stage: string
+  fraction: number
+}
+
+// The model persisted in IndexedDB. Loading it also activates it for predictPrice.
+export function useBrowserModel() {
+  return useQuery<BrowserModelParams | null>({
+    queryKey: BROWSER_MODEL_QUERY_KEY,
+    queryFn: loadBrowserModel,
+    staleTime: Infinity,
+    retry: false,
+  })
+}
+
+// Train on the bundled dataset, or on an uploaded CSV with the same columns
+export function useTrainBrowserModel() {
+  const queryClient = useQueryClient()
+  const [progress, setProgress] = React.useState<TrainingState | null>(null)
+
+  const mutation = useMutation<BrowserModelParams, Error, File | undefined>({
+    mutationFn: async (file) => {
+      setProgress({ stage: "Loading data", fraction: 0 })
+      const csvText = file ? await file.text() : await fetchBundledDataset()
+      const params = await trainInWorker(csvText, file?.name ?? "bundled", (stage, fraction) =>
+        setProgress({ stage, fraction })
+      )
+      await saveBrowserModel(params)
+      return params
+    },
+    onSuccess: (params) => {
+      queryClient.setQueryData(BROWSER_MODEL_QUERY_KEY, params)
+    },
+    onSettled: () => setProgress(null),
+  })
+
+  return { ...mutation, progress }
+}
+
+export function useClearBrowserModel() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: clearBrowserModel,
+    onSuccess: () => {
+      queryClient.setQueryData(BROWSER_MODEL_QUERY_KEY, null)
+    },
+  })
+}
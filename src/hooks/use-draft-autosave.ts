@@ -0,0 +1,40 @@
+import * as React from "react"
+import { UseFormReturn } from "react-hook-form"
+
+import { HouseData } from "@/data/modelData"
+import { saveAutosave } from "@/utils/drafts"
+
+export const AUTOSAVE_DELAY_MS = 500
+
+// Autosave the user's edits to the form, debounced. A pending save is flushed
+// when the page is hidden or the form unmounts, so navigating away keeps it.
+export function useDraftAutosave(form: UseFormReturn<HouseData>, enabled = true) {
+  React.useEffect(() => {
+    if (!enabled) return
+
+    let timer: ReturnType<typeof setTimeout> | null = null
+    const save = () => {
+      timer = null
+      saveAutosave(form.getValues())
+    }
+    const flush = () => {
+      if (timer === null) return
+      clearTimeout(timer)
+      save()
+    }
+
+    const subscription = form.watch((_, { type }) => {
+      // Only user edits count; programmatic updates such as the default suburb do not
+      if (type !== "change") return
+      if (timer !== null) clearTimeout(timer)
+      timer = setTimeout(save, AUTOSAVE_DELAY_MS)
+    })
+    window.addEventListener("pagehide", flush)
+
+    return () => {
+      subscription.unsubscribe()
+      window.removeEventListener("pagehide", flush)
+      flush()
+    }
+  }, [form, enabled])
+}
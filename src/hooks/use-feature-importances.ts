@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query"
+
+import { ApiRequestError, unwrapApiResult } from "@/utils/api"
+import { FeatureImportanceBreakdown, aggregateFeatureImportances } from "@/utils/featureImportance"
+import { fetchFeatureImportances } from "@/utils/prediction"
+
+export const FEATURE_IMPORTANCES_QUERY_KEY = ["feature-importances"] as const
+
+export function useFeatureImportances() {
+  return useQuery<FeatureImportanceBreakdown[], ApiRequestError>({
+    queryKey: FEATURE_IMPORTANCES_QUERY_KEY,
+    queryFn: async ({ signal }) =>
+      aggregateFeatureImportances(unwrapApiResult(await fetchFeatureImportances({ signal }))),
+    // Importances only change when the model is retrained
+    staleTime: 60 * 60 * 1000,
+    retry: false,
+  })
+}
@@ -0,0 +1,47 @@
+import * as React from "react"
+import { UseFormReturn } from "react-hook-form"
+
+import { HouseData } from "@/data/modelData"
+import { houseDataSchema } from "@/utils/schemas"
+
+export const LIVE_PRICING_DELAY_MS = 400
+
+// The form's values when they are complete and valid, without flagging errors
+export function validLiveValues(form: UseFormReturn<HouseData>): HouseData | null {
+  const values = form.getValues()
+  return houseDataSchema.safeParse(values).success ? values : null
+}
+
+// Calls `onChange` with the form's values once edits pause, skipping values
+// that would fail validation. A slider drag fires many changes; only the
+// last one is priced. Cancelling stale requests is up to `onChange`.
+export function useLiveRepricing(
+  form: UseFormReturn<HouseData>,
+  enabled: boolean,
+  onChange: (data: HouseData) => void
+) {
+  // Always call the latest callback without resubscribing
+  const onChangeRef = React.useRef(onChange)
+  React.useEffect(() => {
+    onChangeRef.current = onChange
+  })
+
+  React.useEffect(() => {
+    if (!enabled) return
+
+    let timer: ReturnType<typeof setTimeout> | null = null
+    const subscription = form.watch(() => {
+      if (timer !== null) clearTimeout(timer)
+      timer = setTimeout(() => {
+        timer = null
+        const values = validLiveValues(form)
+        if (values) onChangeRef.current(values)
+      }, LIVE_PRICING_DELAY_MS)
+    })
+
+    return () => {
+      subscription.unsubscribe()
+      if (timer !== null) clearTimeout(timer)
+    }
+  }, [form, enabled])
+}
@@ -0,0 +1,87 @@
+import { useQuery } from "@tanstack/react-query"
+
+import { ApiFailure, ApiRequestError, unwrapApiResult } from "@/utils/api"
+import { checkModelStatus } from "@/utils/prediction"
+import { ModelStatusResponse } from "@/utils/schemas"
+
+export const MODEL_STATUS_QUERY_KEY = ["model-status"] as const
+
+// Poll steadily while the backend answers, back off exponentially while it does not
+const ONLINE_POLL_INTERVAL = 15 * 1000
+const OFFLINE_POLL_BASE = 2 * 1000
+const OFFLINE_POLL_MAX = 60 * 1000
+
+// Responses slower than this mark the backend as degraded
+export const SLOW_RESPONSE_THRESHOLD = 2000
+
+export interface ModelStatusSnapshot extends ModelStatusResponse {
+  latencyMs: number
+}
+
+// Shared by every observer of the status query, since they poll the same endpoint
+let consecutiveFailures = 0
+
+function pollInterval(): number {
+  if (consecutiveFailures === 0) return ONLINE_POLL_INTERVAL
+  return Math.min(OFFLINE_POLL_MAX, OFFLINE_POLL_BASE * 2 ** (consecutiveFailures - 1))
+}
+
+export function useModelStatus() {
+  return useQuery<ModelStatusSnapshot, ApiRequestError>({
+    queryKey: MODEL_STATUS_QUERY_KEY,
+    queryFn: async ({ signal }) => {
+      const startedAt = performance.now()
+      // No client retries: the offline backoff in pollInterval replaces them,
+      // so each check is a single attempt
+      const result = await checkModelStatus({ signal, retry: false })
+      const latencyMs = Math.round(performance.now() - startedAt)
+
+      if (result.status === "error") {
+        if (result.error.kind !== "aborted") consecutiveFailures += 1
+      } else {
+        consecutiveFailures = 0
+      }
+      return { ...unwrapApiResult(result), latencyMs }
+    },
+    staleTime: 10 * 1000,
+    refetchInterval: pollInterval,
+    // Pause polling while the tab is hidden; refetch when it regains focus
+    refetchIntervalInBackground: false,
+    refetchOnWindowFocus: true,
+    retry: false,
+  })
+}
+
+export type BackendConnection = "checking" | "connected" | "degraded" | "offline"
+
+export interface BackendHealth {
+  connection: BackendConnection
+  isModelReady: boolean
+  latencyMs: number | null
+  lastCheckedAt: number | null
+  failure: ApiFailure | null
+}
+
+export function useBackendHealth(): BackendHealth {
+  const query = useModelStatus()
+  const { data, error, dataUpdatedAt, errorUpdatedAt } = query
+
+  const lastCheckedAt = Math.max(dataUpdatedAt, errorUpdatedAt) || null
+
+  if (query.isPending) {
+    return { connection: "checking", isModelReady: false, latencyMs: null, lastCheckedAt, failure: null }
+  }
+
+  if (query.isError) {
+    return { connection: "offline", isModelReady: false, latencyMs: null, lastCheckedAt, failure: error.failure }
+  }
+
+  const degraded = !data.trained || data.latencyMs > SLOW_RESPONSE_THRESHOLD
+  return {
+    connection: degraded ? "degraded" : "connected",
+    isModelReady: data.trained,
+    latencyMs: data.latencyMs,
+    lastCheckedAt,
+    failure: null,
+  }
+}
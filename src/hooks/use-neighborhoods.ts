@@ -0,0 +1,22 @@
+import { useQuery } from "@tanstack/react-query"
+
+import { ApiRequestError, unwrapApiResult } from "@/utils/api"
+import { DEFAULT_GET_RETRY } from "@/utils/apiClient"
+import { fetchNeighborhoods } from "@/utils/prediction"
+
+export const NEIGHBORHOODS_QUERY_KEY = ["neighborhoods"] as const
+
+// The form shows the bundled list meanwhile, so give up on a slow attempt
+// quickly and let the client's backoff retries try again
+const NEIGHBORHOODS_TIMEOUT_MS = 3000
+
+export function useNeighborhoods() {
+  return useQuery<string[], ApiRequestError>({
+    queryKey: NEIGHBORHOODS_QUERY_KEY,
+    queryFn: async ({ signal }) =>
+      unwrapApiResult(await fetchNeighborhoods({ signal, retry: DEFAULT_GET_RETRY, timeoutMs: NEIGHBORHOODS_TIMEOUT_MS })),
+    // The suburb list only changes when the model is retrained
+    staleTime: 60 * 60 * 1000,
+    retry: false,
+  })
+}
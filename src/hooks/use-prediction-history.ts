@@ -0,0 +1,27 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+
+import { deletePrediction, loadPredictionHistory, PredictionRecord } from "@/utils/predictionHistory"
+
+export const PREDICTION_HISTORY_QUERY_KEY = ["prediction-history"] as const
+
+// Saved predictions from IndexedDB, newest first
+export function usePredictionHistory() {
+  return useQuery<PredictionRecord[]>({
+    queryKey: PREDICTION_HISTORY_QUERY_KEY,
+    queryFn: loadPredictionHistory,
+    retry: false,
+  })
+}
+
+export function useDeletePrediction() {
+  const queryClient = useQueryClient()
+
+  return useMutation<void, Error, string>({
+    mutationFn: deletePrediction,
+    onSuccess: (_, id) => {
+      queryClient.setQueryData<PredictionRecord[]>(PREDICTION_HISTORY_QUERY_KEY, (records) =>
+        records?.filter((record) => record.id !== id)
+      )
+    },
+  })
+}
@@ -0,0 +1,156 @@
+import * as React from "react"
+import { QueryClient, useMutation, useQueryClient } from "@tanstack/react-query"
+
+import { toast } from "@/components/ui/use-toast"
+import { HouseData, PredictionConfidence, PriceExplanation, PriceRange } from "@/data/modelData"
+import { ApiFailure, ApiRequestError, isBackendUnavailable } from "@/utils/api"
+import { describeApiFailure } from "@/utils/apiMessages"
+import { getActiveBrowserModel } from "@/utils/browserModelStore"
+import { PredictionRequestOptions, predictPrice, predictPriceFromAPI } from "@/utils/prediction"
+import { BackendModelStatus, savePrediction } from "@/utils/predictionHistory"
+import { ModelStatusResponse } from "@/utils/schemas"
+import { useBrowserModel } from "./use-browser-model"
+import { MODEL_STATUS_QUERY_KEY } from "./use-model-status"
+import { PREDICTION_HISTORY_QUERY_KEY } from "./use-prediction-history"
+
+export const PREDICTION_MUTATION_KEY = ["prediction"] as const
+
+export interface PredictionOutcome {
+  price: number
+  // Band the price is expected to fall within, when the source provides one
+  range: PriceRange | null
+  // Only the backend model can say how sure it is
+  confidence: PredictionConfidence | null
+  // Walk from a baseline price to this one, when the source provides it
+  explanation: PriceExplanation | null
+  source: "API" | "fallback"
+  // Why the API was not used, when it was expected to be
+  failure: ApiFailure | null
+  modelStatus: BackendModelStatus
+}
+
+// The fallback band is the models' median relative error, which half of
+// the held-out sales fell within
+const FALLBACK_RANGE_LEVEL = 0.5
+
+function fallbackOutcome(
+  data: HouseData,
+  failure: ApiFailure | null,
+  modelStatus: BackendModelStatus
+): PredictionOutcome {
+  const { price, low, high, explanation } = predictPrice(data)
+  return {
+    price,
+    range: { low, high, level: FALLBACK_RANGE_LEVEL },
+    confidence: null,
+    explanation,
+    source: "fallback",
+    failure,
+    modelStatus,
+  }
+}
+
+// History is a convenience; a failed write must not fail the prediction
+async function recordPrediction(input: HouseData, outcome: PredictionOutcome) {
+  try {
+    await savePrediction({
+      input,
+      price: outcome.price,
+      range: outcome.range,
+      source: outcome.source,
+      modelStatus: outcome.modelStatus,
+      fallbackModel: outcome.source === "fallback" ? (getActiveBrowserModel() ? "browser" : "calibrated") : null,
+    })
+  } catch (error) {
+    console.warn("Could not save prediction to history:", error)
+  }
+}
+
+export interface ResolvePredictionOptions {
+  signal?: AbortSignal
+  inputSchema?: PredictionRequestOptions["inputSchema"]
+  // Set to false to skip the backend, e.g. once it has failed during a batch
+  allowApi?: boolean
+}
+
+// The backend model's state as of the last status check
+export function cachedModelStatus(queryClient: QueryClient): BackendModelStatus {
+  const status = queryClient.getQueryState<ModelStatusResponse>(MODEL_STATUS_QUERY_KEY)
+  if (status?.status !== "success") return "unavailable"
+  return status.data.trained ? "trained" : "untrained"
+}
+
+// Predicts with the backend model when the cached status says it is ready,
+// falling back to the local estimator otherwise. Throws ApiRequestError when
+// the request was cancelled or the input is invalid.
+export async function resolvePrediction(
+  queryClient: QueryClient,
+  data: HouseData,
+  { signal, inputSchema, allowApi = true }: ResolvePredictionOptions = {}
+): Promise<PredictionOutcome> {
+  const modelStatus = allowApi ? cachedModelStatus(queryClient) : "unavailable"
+  if (modelStatus !== "trained") {
+    return fallbackOutcome(data, null, modelStatus)
+  }
+
+  const result = await predictPriceFromAPI(data, { signal, inputSchema })
+  if (result.status === "success") {
+    return { ...result.data, source: "API", failure: null, modelStatus: "trained" }
+  }
+  // Falling back would only price the same invalid input
+  if (result.error.kind === "aborted" || result.error.kind === "invalid-request") {
+    throw new ApiRequestError(result.error)
+  }
+
+  // The server went away or lost its model since the last status check
+  if (isBackendUnavailable(result.error)) {
+    queryClient.invalidateQueries({ queryKey: MODEL_STATUS_QUERY_KEY })
+    return fallbackOutcome(data, result.error, "unavailable")
+  }
+  return fallbackOutcome(data, result.error, "trained")
+}
+
+export interface UsePredictionOptions {
+  // Set to false for predictions the user did not ask for explicitly, e.g. live re-pricing
+  recordHistory?: boolean
+}
+
+// Runs resolvePrediction as a mutation. Starting a new prediction cancels
+// the one in flight. Completed predictions are saved to history.
+export function usePrediction({ recordHistory = true }: UsePredictionOptions = {}) {
+  const queryClient = useQueryClient()
+  const controllerRef = React.useRef<AbortController | null>(null)
+
+  // Make sure a model trained in this browser is loaded for the fallback
+  useBrowserModel()
+
+  React.useEffect(() => () => controllerRef.current?.abort(), [])
+
+  return useMutation<PredictionOutcome, ApiRequestError, HouseData>({
+    mutationKey: PREDICTION_MUTATION_KEY,
+    mutationFn: async (data) => {
+      controllerRef.current?.abort()
+      const controller = new AbortController()
+      controllerRef.current = controller
+
+      return resolvePrediction(queryClient, data, { signal: controller.signal })
+    },
+    onSuccess: async (outcome, data) => {
+      if (!recordHistory) return
+      await recordPrediction(data, outcome)
+      queryClient.invalidateQueries({ queryKey: PREDICTION_HISTORY_QUERY_KEY })
+    },
+  })
+}
+
+// Toast for a prediction that failed outright; superseded requests stay silent
+export function toastPredictionError(error: ApiRequestError) {
+  if (error.failure?.kind === "aborted") return
+  console.error("Prediction failed:", error)
+  const message = error.failure ? describeApiFailure(error.failure) : null
+  toast({
+    title: message?.title ?? "Prediction Error",
+    description: message?.description ?? "An unexpected error occurred",
+    variant: "destructive",
+  })
+}
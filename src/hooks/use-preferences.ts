@@ -0,0 +1,56 @@
+import * as React from "react"
+
+import { CurrencyDisplay, defaultCurrencyDisplay, formatCompactPrice, formatPrice } from "@/utils/currency"
+import { UnitSystem } from "@/utils/units"
+
+export interface Preferences {
+  unitSystem: UnitSystem
+  // Display currency; amounts are converted from the model currency
+  currency: string
+  locale: string
+  // Re-price the estimate form as it is edited
+  livePricing: boolean
+}
+
+export const defaultPreferences: Preferences = {
+  unitSystem: "imperial",
+  ...defaultCurrencyDisplay,
+  livePricing: false,
+}
+
+export const PREFERENCES_STORAGE_KEY = "cozy-quarters:preferences"
+
+export interface PreferencesContextValue extends Preferences {
+  setPreferences: (update: Partial<Preferences>) => void
+}
+
+export const PreferencesContext = React.createContext<PreferencesContextValue>({
+  ...defaultPreferences,
+  setPreferences: () => {},
+})
+
+export function loadPreferences(): Preferences {
+  try {
+    const stored = localStorage.getItem(PREFERENCES_STORAGE_KEY)
+    return stored ? { ...defaultPreferences, ...JSON.parse(stored) } : defaultPreferences
+  } catch {
+    return defaultPreferences
+  }
+}
+
+export function usePreferences() {
+  return React.useContext(PreferencesContext)
+}
+
+// Format model-currency prices in the user's display currency and locale
+export function usePriceFormatter() {
+  const { currency, locale } = usePreferences()
+  return React.useMemo(() => {
+    const display: CurrencyDisplay = { currency, locale }
+    return {
+      display,
+      formatPrice: (price: number) => formatPrice(price, display),
+      formatCompactPrice: (price: number) => formatCompactPrice(price, display),
+    }
+  }, [currency, locale])
+}
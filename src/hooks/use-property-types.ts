@@ -0,0 +1,16 @@
+import { useQuery } from "@tanstack/react-query"
+
+import { ApiRequestError, unwrapApiResult } from "@/utils/api"
+import { fetchPropertyTypes } from "@/utils/prediction"
+
+export const PROPERTY_TYPES_QUERY_KEY = ["property-types"] as const
+
+export function usePropertyTypes() {
+  return useQuery<string[], ApiRequestError>({
+    queryKey: PROPERTY_TYPES_QUERY_KEY,
+    queryFn: async ({ signal }) => unwrapApiResult(await fetchPropertyTypes({ signal })),
+    // Property types only change when the model is retrained
+    staleTime: 60 * 60 * 1000,
+    retry: false,
+  })
+}
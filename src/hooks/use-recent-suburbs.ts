@@ -0,0 +1,33 @@
+import * as React from "react"
+
+export const RECENT_SUBURBS_STORAGE_KEY = "cozy-quarters:recent-suburbs"
+
+const MAX_RECENT_SUBURBS = 5
+
+function loadRecentSuburbs(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RECENT_SUBURBS_STORAGE_KEY) ?? "[]")
+    return Array.isArray(stored) ? stored : []
+  } catch {
+    return []
+  }
+}
+
+// Suburbs the user picked most recently, newest first
+export function useRecentSuburbs() {
+  const [recent, setRecent] = React.useState<string[]>(loadRecentSuburbs)
+
+  const addRecent = React.useCallback((suburb: string) => {
+    setRecent((previous) => {
+      const next = [suburb, ...previous.filter((item) => item !== suburb)].slice(0, MAX_RECENT_SUBURBS)
+      try {
+        localStorage.setItem(RECENT_SUBURBS_STORAGE_KEY, JSON.stringify(next))
+      } catch (error) {
+        console.warn("Could not save recent suburbs:", error)
+      }
+      return next
+    })
+  }, [])
+
+  return { recent, addRecent }
+}
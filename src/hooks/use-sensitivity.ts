@@ -0,0 +1,72 @@
+import { QueryClient, useQuery, useQueryClient } from "@tanstack/react-query"
+
+import { HouseData } from "@/data/modelData"
+import { ApiRequestError, isBackendUnavailable } from "@/utils/api"
+import { predictPrice, predictPricesFromAPI } from "@/utils/prediction"
+import { SensitivityField, SweepPoint, sweepPoints } from "@/utils/sensitivity"
+import { UnitSystem } from "@/utils/units"
+import { MODEL_STATUS_QUERY_KEY, useModelStatus } from "./use-model-status"
+import { cachedModelStatus } from "./use-prediction"
+
+export interface SensitivityPoint extends SweepPoint {
+  price: number
+}
+
+export interface SensitivityResult {
+  points: SensitivityPoint[]
+  source: "API" | "fallback"
+}
+
+function fallbackSweep(data: HouseData, field: SensitivityField, sweep: SweepPoint[]): SensitivityResult {
+  return {
+    points: sweep.map((point) => ({ ...point, price: predictPrice({ ...data, [field]: point.value }).price })),
+    source: "fallback",
+  }
+}
+
+// Prices every sweep value in one batch request when the backend model is
+// ready, and with the local estimator otherwise
+async function resolveSweep(
+  queryClient: QueryClient,
+  data: HouseData,
+  field: SensitivityField,
+  system: UnitSystem,
+  signal: AbortSignal
+): Promise<SensitivityResult> {
+  const sweep = sweepPoints(data, field, system)
+  if (cachedModelStatus(queryClient) !== "trained") {
+    return fallbackSweep(data, field, sweep)
+  }
+
+  const result = await predictPricesFromAPI(
+    sweep.map((point) => ({ ...data, [field]: point.value })),
+    { signal }
+  )
+  if (result.status === "success") {
+    return { points: sweep.map((point, i) => ({ ...point, price: result.data[i] })), source: "API" }
+  }
+  if (result.error.kind === "aborted" || result.error.kind === "invalid-request") {
+    throw new ApiRequestError(result.error)
+  }
+  if (isBackendUnavailable(result.error)) {
+    queryClient.invalidateQueries({ queryKey: MODEL_STATUS_QUERY_KEY })
+  }
+  console.warn("Batch prediction failed, falling back:", result.error)
+  return fallbackSweep(data, field, sweep)
+}
+
+// Price as a function of one field, holding the rest of `data` fixed
+export function useSensitivity(data: HouseData | null, field: SensitivityField, system: UnitSystem) {
+  const queryClient = useQueryClient()
+  // Sweep again once the backend model becomes ready (or goes away)
+  const isModelReady = useModelStatus().data?.trained ?? false
+
+  return useQuery<SensitivityResult, ApiRequestError>({
+    queryKey: ["sensitivity", field, system, isModelReady, data],
+    queryFn: ({ signal }) => resolveSweep(queryClient, data, field, system, signal),
+    enabled: data !== null,
+    // Predictions for the same details do not change until the model does
+    staleTime: Infinity,
+    retry: false,
+  })
+}
@@ -0,0 +1,272 @@
+import React, { useMemo, useState } from 'react';
+import { Download, FileUp, Loader2, Play, Square } from 'lucide-react';
+import Header from '../components/Header';
+import Footer from '../components/Footer';
+import { defaultHouseData } from '../data/modelData';
+import { MODEL_CURRENCY, describeCurrencySource } from '../utils/currency';
+import { parseCsv, CsvRecord } from '../utils/csv';
+import { downloadTextFile } from '../utils/download';
+import {
+  BATCH_FIELDS,
+  BatchField,
+  detectColumnMapping,
+  findMissingFields,
+  formatBatchResultsCsv,
+  formatBatchTemplateCsv,
+  parseBatchRows,
+  usesDatasetLayout
+} from '../utils/batch';
+import { BATCH_CONCURRENCY, useBatchPrediction } from '@/hooks/use-batch-prediction';
+import { usePriceFormatter } from '@/hooks/use-preferences';
+import { cn } from '@/lib/utils';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "@/components/ui/use-toast";
+
+// Rows rendered on the page; the export always contains every row
+const PREVIEW_ROWS = 100;
+
+const fieldLabels: Record<BatchField, string> = {
+  squareFootage: "Floor area",
+  bedrooms: "Bedrooms",
+  bathrooms: "Bathrooms",
+  yearBuilt: "Year built",
+  neighborhood: "Neighborhood",
+  lotSize: "Lot size",
+  garage: "Garage",
+  propertyType: "Property type",
+  basement: "Basement",
+  centralAir: "Central air",
+  kitchenQuality: "Kitchen quality",
+};
+
+interface UploadedFile {
+  name: string;
+  columns: string[];
+  records: CsvRecord[];
+}
+
+const downloadCsv = (fileName: string, text: string) => downloadTextFile(fileName, text, 'text/csv;charset=utf-8');
+
+const Batch: React.FC = () => {
+  const [upload, setUpload] = useState<UploadedFile | null>(null);
+  const batch = useBatchPrediction();
+  const { display, formatPrice } = usePriceFormatter();
+
+  const mapping = useMemo(() => upload ? detectColumnMapping(upload.columns) : {}, [upload]);
+  const missingFields = useMemo(() => findMissingFields(mapping), [mapping]);
+  const rows = useMemo(
+    () => upload && missingFields.length === 0 ? parseBatchRows(upload.records, mapping) : [],
+    [upload, mapping, missingFields]
+  );
+  const validCount = rows.filter(row => row.data).length;
+  const imputedCount = rows.filter(row => row.data && row.imputed.length > 0).length;
+  const isDatasetLayout = usesDatasetLayout(mapping);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    batch.reset();
+    try {
+      const { columns, records } = parseCsv(await file.text());
+      if (records.length === 0) {
+        throw new Error("The file has no data rows");
+      }
+      setUpload({ name: file.name, columns, records });
+    } catch (error) {
+      setUpload(null);
+      toast({
+        title: "Could not read CSV",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRun = async () => {
+    const results = await batch.run(rows);
+    const priced = results.filter(result => result?.price != null).length;
+    const failed = results.filter(result => result?.price === null).length;
+    toast({
+      title: results.includes(undefined) ? "Batch valuation cancelled" : "Batch valuation finished",
+      description: `${priced} of ${results.length} rows priced${failed ? `, ${failed} with errors` : ''}.`,
+    });
+  };
+
+  const handleExport = () => {
+    const baseName = upload.name.replace(/\.csv$/i, '');
+    downloadCsv(`${baseName}-valuations.csv`, formatBatchResultsCsv(upload.columns, rows, batch.results));
+  };
+
+  const progress = batch.progress;
+  const hasResults = batch.results.length > 0;
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50">
+      <div className="flex-grow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <Header />
+
+          <Card className="glass-card mt-10 animate-scale-in">
+            <CardHeader>
+              <CardTitle className="text-2xl">Batch Valuation</CardTitle>
+              <CardDescription>
+                Upload a CSV with one property per row. Use the template's columns (square feet, acres)
+                or the raw melb_data.csv layout (square metres); columns are matched automatically.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="flex flex-wrap items-center gap-3">
+                <Button variant="outline" asChild>
+                  <label className="cursor-pointer">
+                    <FileUp className="h-4 w-4 mr-2" />
+                    {upload ? "Choose another file" : "Upload CSV"}
+                    <Input type="file" accept=".csv,text/csv" className="sr-only" onChange={handleFileChange} />
+                  </label>
+                </Button>
+                <Button
+                  variant="ghost"
+                  onClick={() => downloadCsv('valuation-template.csv', formatBatchTemplateCsv(defaultHouseData))}
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Download template
+                </Button>
+                {upload && (
+                  <span className="text-sm text-muted-foreground">
+                    {upload.name}: {upload.records.length} rows
+                  </span>
+                )}
+              </div>
+
+              {upload && (
+                <div className="space-y-2">
+                  <div className="text-sm font-medium">
+                    Column mapping{isDatasetLayout && (
+                      <span className="font-normal text-muted-foreground">
+                        {' '}(melb_data.csv areas converted from m²; blank values filled with the dataset median)
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    {BATCH_FIELDS.map(field => (
+                      <Badge
+                        key={field}
+                        variant={mapping[field] ? 'secondary' : 'outline'}
+                        className={cn(!mapping[field] && 'text-muted-foreground')}
+                      >
+                        {fieldLabels[field]}: {mapping[field]?.column ?? "not found"}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {missingFields.length > 0 && upload && (
+                <Alert variant="destructive">
+                  <AlertTitle>Missing columns</AlertTitle>
+                  <AlertDescription>
+                    No column found for {missingFields.map(field => fieldLabels[field]).join(', ')}.
+                    Rename the columns to match the template and upload again.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              {rows.length > 0 && (
+                <div className="flex flex-wrap items-center gap-3">
+                  {batch.isRunning ? (
+                    <Button variant="outline" onClick={batch.cancel}>
+                      <Square className="h-4 w-4 mr-2" />
+                      Cancel
+                    </Button>
+                  ) : (
+                    <Button onClick={handleRun} disabled={validCount === 0}>
+                      <Play className="h-4 w-4 mr-2" />
+                      Predict {validCount} valid rows
+                    </Button>
+                  )}
+                  <Button variant="outline" onClick={handleExport} disabled={!hasResults || batch.isRunning}>
+                    <Download className="h-4 w-4 mr-2" />
+                    Export results
+                  </Button>
+                  <span className="text-sm text-muted-foreground">
+                    {rows.length - validCount} rows failed validation
+                    {imputedCount > 0 && `, ${imputedCount} had blank values filled in`}; up to {BATCH_CONCURRENCY} requests run at once.
+                  </span>
+                </div>
+              )}
+
+              {progress && (
+                <div className="space-y-2">
+                  <Progress value={progress.total ? (progress.completed / progress.total) * 100 : 100} />
+                  <div className="flex items-center text-sm text-muted-foreground">
+                    {batch.isRunning && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                    {progress.completed} of {progress.total} rows predicted
+                  </div>
+                </div>
+              )}
+
+              {rows.length > 0 && (
+                <>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Row</TableHead>
+                        <TableHead>Neighborhood</TableHead>
+                        <TableHead className="text-right">Price</TableHead>
+                        <TableHead>Source</TableHead>
+                        <TableHead>Errors</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rows.slice(0, PREVIEW_ROWS).map((row, index) => {
+                        const result = batch.results[index];
+                        return (
+                          <TableRow key={row.row}>
+                            <TableCell>{row.row}</TableCell>
+                            <TableCell>{row.data?.neighborhood ?? row.record[mapping.neighborhood?.column] ?? ''}</TableCell>
+                            <TableCell className="text-right whitespace-nowrap">
+                              {result?.price != null ? formatPrice(result.price) : ''}
+                            </TableCell>
+                            <TableCell>
+                              {result?.source && (
+                                <Badge variant={result.source === 'API' ? 'default' : 'secondary'}>
+                                  {result.source === 'API' ? "ML model" : "Fallback"}
+                                </Badge>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-sm text-destructive">
+                              {result?.error ?? row.errors.join('; ')}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                  {rows.length > PREVIEW_ROWS && (
+                    <p className="text-sm text-muted-foreground">
+                      Showing the first {PREVIEW_ROWS} of {rows.length} rows. Export to see every row.
+                    </p>
+                  )}
+                  <p className="text-xs text-muted-foreground">
+                    {describeCurrencySource(display)} Exported prices are in {MODEL_CURRENCY}.
+                  </p>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Batch;
@@ -0,0 +1,234 @@
+import React, { useState } from 'react';
+import { Plus } from 'lucide-react';
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from 'recharts';
+import Header from '../components/Header';
+import Footer from '../components/Footer';
+import ComparePropertyCard from '../components/ComparePropertyCard';
+import { HouseData, defaultHouseData, propertyTypeLabels } from '../data/modelData';
+import { describeCurrencySource } from '../utils/currency';
+import { formatFloorArea, formatLotSize, UnitSystem } from '../utils/units';
+import { PredictionOutcome } from '@/hooks/use-prediction';
+import { usePreferences, usePriceFormatter } from '@/hooks/use-preferences';
+import { cn } from '@/lib/utils';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+
+const MIN_PROPERTIES = 2;
+const MAX_PROPERTIES = 4;
+
+// Tailwind needs the full class names in source
+const gridColumns: Record<number, string> = {
+  2: 'lg:grid-cols-2',
+  3: 'lg:grid-cols-3',
+  4: 'lg:grid-cols-4',
+};
+
+interface ComparedProperty {
+  id: number;
+  defaultValues: HouseData;
+}
+
+interface ComparedResult {
+  input: HouseData;
+  outcome: PredictionOutcome;
+}
+
+const yesNo = (value?: boolean) => value ? "Yes" : "No";
+
+// Inputs shown in the diff table, formatted as the user sees them so that
+// unit rounding does not show up as a difference
+const comparedFields: { key: keyof HouseData; label: string; format: (data: HouseData, unitSystem: UnitSystem) => string }[] = [
+  { key: 'neighborhood', label: "Neighborhood", format: (data) => data.neighborhood },
+  { key: 'propertyType', label: "Property type", format: (data) => propertyTypeLabels[data.propertyType ?? 'h'] ?? data.propertyType },
+  { key: 'squareFootage', label: "Floor area", format: (data, unitSystem) => formatFloorArea(data.squareFootage, unitSystem) },
+  { key: 'lotSize', label: "Lot size", format: (data, unitSystem) => formatLotSize(data.lotSize, unitSystem) },
+  { key: 'bedrooms', label: "Bedrooms", format: (data) => String(data.bedrooms) },
+  { key: 'bathrooms', label: "Bathrooms", format: (data) => String(data.bathrooms) },
+  { key: 'yearBuilt', label: "Year built", format: (data) => String(data.yearBuilt) },
+  { key: 'garage', label: "Garage spaces", format: (data) => String(data.garage) },
+  { key: 'kitchenQuality', label: "Kitchen quality", format: (data) => `${data.kitchenQuality}/5` },
+  { key: 'basement', label: "Basement", format: (data) => yesNo(data.basement) },
+  { key: 'centralAir', label: "Central air", format: (data) => yesNo(data.centralAir) },
+];
+
+const chartConfig = {
+  price: {
+    label: "Predicted price",
+    color: "hsl(var(--primary))",
+  },
+} satisfies ChartConfig;
+
+const propertyLabel = (index: number) => `Property ${String.fromCharCode(65 + index)}`;
+
+const Compare: React.FC = () => {
+  const { unitSystem } = usePreferences();
+  const { display, formatPrice, formatCompactPrice } = usePriceFormatter();
+  const [nextId, setNextId] = useState(MIN_PROPERTIES);
+  const [properties, setProperties] = useState<ComparedProperty[]>(
+    Array.from({ length: MIN_PROPERTIES }, (_, id) => ({ id, defaultValues: defaultHouseData }))
+  );
+  const [results, setResults] = useState<Record<number, ComparedResult>>({});
+  const [onlyDifferences, setOnlyDifferences] = useState(false);
+
+  // Start a new property from the last one's most recent prediction, which is usually a close variant
+  const handleAdd = () => {
+    const last = properties[properties.length - 1];
+    const defaultValues = results[last.id]?.input ?? last.defaultValues;
+    setProperties(prev => [...prev, { id: nextId, defaultValues }]);
+    setNextId(id => id + 1);
+  };
+
+  const handleRemove = (id: number) => {
+    setProperties(prev => prev.filter(property => property.id !== id));
+    setResults(({ [id]: _removed, ...rest }) => rest);
+  };
+
+  const handlePredicted = (id: number, input: HouseData, outcome: PredictionOutcome) => {
+    setResults(prev => ({ ...prev, [id]: { input, outcome } }));
+  };
+
+  const predicted = properties
+    .map((property, index) => ({ label: propertyLabel(index), result: results[property.id] }))
+    .filter(({ result }) => result);
+
+  const rows = comparedFields
+    .map(field => {
+      const values = predicted.map(({ result }) => field.format(result.input, unitSystem));
+      return { ...field, values, differs: new Set(values).size > 1 };
+    })
+    .filter(row => !onlyDifferences || row.differs);
+
+  const chartData = predicted.map(({ label, result }) => ({ property: label, price: result.outcome.price }));
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50">
+      <div className="flex-grow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <Header />
+
+          <div className="mt-10 flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <h2 className="text-2xl font-semibold tracking-tight">Compare Properties</h2>
+              <p className="text-muted-foreground">
+                Predict {MIN_PROPERTIES} to {MAX_PROPERTIES} candidates side by side.
+              </p>
+            </div>
+            <Button variant="outline" onClick={handleAdd} disabled={properties.length >= MAX_PROPERTIES}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add property
+            </Button>
+          </div>
+
+          <div className={cn('mt-6 grid grid-cols-1 md:grid-cols-2 gap-6', gridColumns[properties.length])}>
+            {properties.map((property, index) => (
+              <ComparePropertyCard
+                key={property.id}
+                label={propertyLabel(index)}
+                defaultValues={property.defaultValues}
+                onPredicted={(input, outcome) => handlePredicted(property.id, input, outcome)}
+                onRemove={properties.length > MIN_PROPERTIES ? () => handleRemove(property.id) : undefined}
+              />
+            ))}
+          </div>
+
+          <div className="mt-8 grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <Card className="glass-card">
+              <CardHeader>
+                <CardTitle>Differences</CardTitle>
+                <CardDescription>
+                  Inputs behind each prediction; highlighted rows differ between properties
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {predicted.length < MIN_PROPERTIES ? (
+                  <p className="py-8 text-center text-muted-foreground">
+                    Predict at least two properties to compare their inputs.
+                  </p>
+                ) : (
+                  <>
+                    <div className="flex items-center space-x-2 mb-4">
+                      <Switch id="only-differences" checked={onlyDifferences} onCheckedChange={setOnlyDifferences} />
+                      <Label htmlFor="only-differences">Only show differences</Label>
+                    </div>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead />
+                          {predicted.map(({ label }) => <TableHead key={label}>{label}</TableHead>)}
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {rows.map(row => (
+                          <TableRow key={row.key} className={cn(row.differs && 'bg-amber-50 hover:bg-amber-100/70')}>
+                            <TableCell className="font-medium">{row.label}</TableCell>
+                            {row.values.map((value, index) => (
+                              <TableCell key={predicted[index].label} className={cn(row.differs && 'font-medium')}>
+                                {value}
+                              </TableCell>
+                            ))}
+                          </TableRow>
+                        ))}
+                        <TableRow>
+                          <TableCell className="font-medium">Predicted price</TableCell>
+                          {predicted.map(({ label, result }) => (
+                            <TableCell key={label} className="font-semibold whitespace-nowrap">
+                              {formatPrice(result.outcome.price)}
+                              <div className="text-xs font-normal text-muted-foreground">
+                                {result.outcome.source === 'API' ? "ML model" : "Fallback"}
+                              </div>
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      </TableBody>
+                    </Table>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="glass-card">
+              <CardHeader>
+                <CardTitle>Predicted Prices</CardTitle>
+                <CardDescription>Latest prediction for each property</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {chartData.length === 0 ? (
+                  <p className="py-8 text-center text-muted-foreground">
+                    Predicted prices will appear here.
+                  </p>
+                ) : (
+                  <ChartContainer config={chartConfig} className="aspect-auto h-72 w-full">
+                    <BarChart data={chartData} margin={{ left: 12 }}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="property" tickLine={false} axisLine={false} />
+                      <YAxis tickFormatter={formatCompactPrice} tickLine={false} axisLine={false} width={72} />
+                      <ChartTooltip
+                        cursor={false}
+                        content={<ChartTooltipContent formatter={(value) => formatPrice(Number(value))} />}
+                      />
+                      <Bar dataKey="price" fill="var(--color-price)" radius={6} />
+                    </BarChart>
+                  </ChartContainer>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+
+          {predicted.length > 0 && (
+            <p className="mt-4 text-xs text-muted-foreground">
+              {describeCurrencySource(display)}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Compare;
@@ -0,0 +1,250 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Loader2, RotateCw, Trash2 } from 'lucide-react';
+import Header from '../components/Header';
+import Footer from '../components/Footer';
+import { propertyTypeLabels } from '../data/modelData';
+import { describeCurrencySource } from '../utils/currency';
+import { PredictionRecord } from '../utils/predictionHistory';
+import { formatFloorArea } from '../utils/units';
+import { useDeletePrediction, usePredictionHistory } from '@/hooks/use-prediction-history';
+import { toastPredictionError, usePrediction } from '@/hooks/use-prediction';
+import { usePreferences, usePriceFormatter } from '@/hooks/use-preferences';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "@/components/ui/use-toast";
+
+type SortOrder = 'newest' | 'oldest' | 'price-desc' | 'price-asc';
+
+const sortLabels: Record<SortOrder, string> = {
+  'newest': "Newest first",
+  'oldest': "Oldest first",
+  'price-desc': "Highest price",
+  'price-asc': "Lowest price",
+};
+
+const compareRecords: Record<SortOrder, (a: PredictionRecord, b: PredictionRecord) => number> = {
+  'newest': (a, b) => b.createdAt - a.createdAt,
+  'oldest': (a, b) => a.createdAt - b.createdAt,
+  'price-desc': (a, b) => b.price - a.price,
+  'price-asc': (a, b) => a.price - b.price,
+};
+
+const ALL = 'all';
+
+const modelStatusLabels: Record<PredictionRecord['modelStatus'], string> = {
+  trained: "Backend ready",
+  untrained: "Backend untrained",
+  unavailable: "Backend offline",
+};
+
+const History: React.FC = () => {
+  const history = usePredictionHistory();
+  const deletePrediction = useDeletePrediction();
+  const prediction = usePrediction();
+  const { unitSystem } = usePreferences();
+  const { display, formatPrice } = usePriceFormatter();
+
+  const [sortOrder, setSortOrder] = useState<SortOrder>('newest');
+  const [neighborhoodFilter, setNeighborhoodFilter] = useState(ALL);
+  const [sourceFilter, setSourceFilter] = useState(ALL);
+  const [rerunningId, setRerunningId] = useState<string | null>(null);
+
+  const records = useMemo(() => history.data ?? [], [history.data]);
+  const neighborhoods = useMemo(
+    () => Array.from(new Set(records.map((record) => record.input.neighborhood))).sort(),
+    [records]
+  );
+
+  const visibleRecords = useMemo(
+    () => records
+      .filter((record) => neighborhoodFilter === ALL || record.input.neighborhood === neighborhoodFilter)
+      .filter((record) => sourceFilter === ALL || record.source === sourceFilter)
+      .sort(compareRecords[sortOrder]),
+    [records, neighborhoodFilter, sourceFilter, sortOrder]
+  );
+
+  // Predict the saved input again with whichever model is current; the result is saved as a new entry
+  const handleRerun = (record: PredictionRecord) => {
+    setRerunningId(record.id);
+    prediction.mutate(record.input, {
+      onSuccess: ({ price, source }) => {
+        const change = price - record.price;
+        toast({
+          title: `New estimate: ${formatPrice(price)}`,
+          description: `${change === 0 ? "Unchanged" : `${change > 0 ? '+' : '−'}${formatPrice(Math.abs(change))}`} from the saved ${formatPrice(record.price)} (${source === 'API' ? "ML model" : "fallback"})`,
+        });
+      },
+      onError: toastPredictionError,
+      onSettled: () => setRerunningId(null),
+    });
+  };
+
+  const handleDelete = (record: PredictionRecord) => {
+    deletePrediction.mutate(record.id, {
+      onError: (error) => {
+        toast({
+          title: "Could not delete entry",
+          description: error.message,
+          variant: "destructive",
+        });
+      },
+    });
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50">
+      <div className="flex-grow">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <Header />
+
+          <Card className="glass-card mt-10 animate-scale-in">
+            <CardHeader>
+              <CardTitle className="text-2xl">Prediction History</CardTitle>
+              <CardDescription>
+                Predictions are saved in this browser. Re-run one to price it with the current model.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="flex flex-wrap gap-3">
+                <Select value={sortOrder} onValueChange={(value) => setSortOrder(value as SortOrder)}>
+                  <SelectTrigger className="w-44" aria-label="Sort by">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(sortLabels) as SortOrder[]).map((order) => (
+                      <SelectItem key={order} value={order}>{sortLabels[order]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                <Select value={neighborhoodFilter} onValueChange={setNeighborhoodFilter}>
+                  <SelectTrigger className="w-52" aria-label="Filter by neighborhood">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All neighborhoods</SelectItem>
+                    {neighborhoods.map((neighborhood) => (
+                      <SelectItem key={neighborhood} value={neighborhood}>{neighborhood}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                <Select value={sourceFilter} onValueChange={setSourceFilter}>
+                  <SelectTrigger className="w-44" aria-label="Filter by source">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All sources</SelectItem>
+                    <SelectItem value="API">ML model</SelectItem>
+                    <SelectItem value="fallback">Fallback</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {history.isPending ? (
+                <div className="flex items-center justify-center py-12 text-muted-foreground">
+                  <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+                  Loading history...
+                </div>
+              ) : history.isError ? (
+                <p className="py-12 text-center text-destructive">
+                  Could not load saved predictions: {history.error.message}
+                </p>
+              ) : records.length === 0 ? (
+                <p className="py-12 text-center text-muted-foreground">
+                  No predictions yet. <Link to="/" className="underline">Estimate a property</Link> to start your history.
+                </p>
+              ) : visibleRecords.length === 0 ? (
+                <p className="py-12 text-center text-muted-foreground">
+                  No predictions match these filters.
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Property</TableHead>
+                      <TableHead>Neighborhood</TableHead>
+                      <TableHead className="text-right">Price</TableHead>
+                      <TableHead>Source</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {visibleRecords.map((record) => (
+                      <TableRow key={record.id}>
+                        <TableCell className="whitespace-nowrap">
+                          {format(record.createdAt, 'PP p')}
+                        </TableCell>
+                        <TableCell>
+                          {propertyTypeLabels[record.input.propertyType ?? 'h'] ?? record.input.propertyType}
+                          {' · '}{record.input.bedrooms} bd · {record.input.bathrooms} ba
+                          {' · '}{formatFloorArea(record.input.squareFootage, unitSystem)}
+                          <span className="text-muted-foreground"> · built {record.input.yearBuilt}</span>
+                        </TableCell>
+                        <TableCell>{record.input.neighborhood}</TableCell>
+                        <TableCell className="text-right font-medium whitespace-nowrap">
+                          {formatPrice(record.price)}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex flex-col items-start gap-1">
+                            <Badge variant={record.source === 'API' ? 'default' : 'secondary'}>
+                              {record.source === 'API'
+                                ? "ML model"
+                                : record.fallbackModel === 'browser' ? "Browser model" : "Fallback"}
+                            </Badge>
+                            <span className="text-xs text-muted-foreground">
+                              {modelStatusLabels[record.modelStatus]}
+                            </span>
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label="Re-run prediction"
+                            title="Re-run with the current model"
+                            disabled={rerunningId !== null}
+                            onClick={() => handleRerun(record)}
+                          >
+                            {rerunningId === record.id
+                              ? <Loader2 className="h-4 w-4 animate-spin" />
+                              : <RotateCw className="h-4 w-4" />}
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            aria-label="Delete entry"
+                            title="Delete"
+                            disabled={deletePrediction.isPending}
+                            onClick={() => handleDelete(record)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+              {visibleRecords.length > 0 && (
+                <p className="mt-4 text-xs text-muted-foreground">
+                  {describeCurrencySource(display)}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default History;
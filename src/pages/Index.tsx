@@ -1,114 +1,144 @@
-import React, { useState, useEffect } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import Header from '../components/Header';
 import Footer from '../components/Footer';
 import HouseForm from '../components/HouseForm';
 import PredictionResult from '../components/PredictionResult';
 import FeatureImportance from '../components/FeatureImportance';
-import { HouseData } from '../data/modelData';
-import { checkModelStatus, predictPrice, predictPriceFromAPI } from '../utils/prediction';
+import PredictionExplanation from '../components/PredictionExplanation';
+import SensitivityPanel from '../components/SensitivityPanel';
+import { HouseData, houseDataFields } from '../data/modelData';
+import BackendStatusBanner from '../components/BackendStatusBanner';
+import BrowserModelPanel from '../components/BrowserModelPanel';
+import { describeApiFailure } from '../utils/apiMessages';
+import { getActiveBrowserModel } from '../utils/browserModelStore';
+import { houseDataFromSearchParams, houseDataToSearchParams } from '../utils/urlState';
+import { useModelStatus } from '@/hooks/use-model-status';
+import { PredictionOutcome, toastPredictionError, usePrediction } from '@/hooks/use-prediction';
 import { toast } from "@/components/ui/use-toast";
 import { ToastAction } from "@/components/ui/toast";
 
 const Index: React.FC = () => {
-  const [predictedPrice, setPredictedPrice] = useState<number | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
-  const [modelStatus, setModelStatus] = useState<{
-    isAvailable: boolean | null;
-    isLoading: boolean;
-    error: string | null;
-  }>({
-    isAvailable: null,
-    isLoading: true,
-    error: null
-  });
+  const modelStatusQuery = useModelStatus();
+  const prediction = usePrediction();
+  // Live pricing runs separately so its estimates stay out of history
+  const livePrediction = usePrediction({ recordHistory: false });
+  // The latest estimate from either, with the details it was made for
+  const [estimate, setEstimate] = useState<{ input: HouseData; outcome: PredictionOutcome } | null>(null);
+  // Only the most recently started prediction may update the estimate
+  const latestRequest = useRef(0);
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Details from a shared link, read once since the form only takes initial values
+  const [linkedData] = useState(() => houseDataFromSearchParams(searchParams));
+
+  const modelStatus = {
+    isAvailable: modelStatusQuery.isPending ? null : !modelStatusQuery.isError && modelStatusQuery.data.trained,
+    isLoading: modelStatusQuery.isPending,
+    failure: modelStatusQuery.error?.failure ?? null
+  };
 
-  // Check backend status on component mount
+  // Let the user know once when the backend is up but has no trained model
+  const hasWarnedUntrained = useRef(false);
   useEffect(() => {
-    const checkBackendStatus = async () => {
-      try {
-        const status = await checkModelStatus();
-        setModelStatus({
-          isAvailable: status.trained,
-          isLoading: false,
-          error: null
-        });
-        
-        if (!status.trained) {
-          toast({
-            title: "Backend Model Not Ready",
-            description: "Using simplified prediction model",
-            variant: "default",
-            action: (
-              <ToastAction 
-                altText="Learn more" 
-                onClick={() => window.open('/docs/backend-setup', '_blank')}
-              >
-                Setup Guide
-              </ToastAction>
-            )
-          });
-        }
-      } catch (error) {
-        console.error("Failed to check model status:", error);
-        setModelStatus({
-          isAvailable: false,
-          isLoading: false,
-          error: "Failed to connect to backend"
-        });
-      }
-    };
-
-    checkBackendStatus();
-  }, []);
-
-  const handleFormSubmit = async (data: HouseData) => {
-    setIsLoading(true);
-    setPredictedPrice(null); // Reset previous prediction
-
-    try {
-      let price: number | null = null;
-      let source = '';
-
-      // Try API first if available
-      if (modelStatus.isAvailable) {
-        try {
-          price = await predictPriceFromAPI(data);
-          source = 'API';
-        } catch (apiError) {
-          console.warn("API prediction failed, falling back:", apiError);
-        }
-      }
+    if (modelStatusQuery.data?.trained !== false || hasWarnedUntrained.current) return;
+    hasWarnedUntrained.current = true;
 
-      // Fallback to local prediction
-      if (price === null) {
-        price = predictPrice(data);
-        source = 'fallback';
-      }
+    toast({
+      title: "Backend Model Not Ready",
+      description: "Using simplified prediction model",
+      variant: "default",
+      action: (
+        <ToastAction 
+          altText="Learn more" 
+          onClick={() => window.open('/docs/backend-setup', '_blank')}
+        >
+          Setup Guide
+        </ToastAction>
+      )
+    });
+  }, [modelStatusQuery.data?.trained]);
 
-      setPredictedPrice(price);
-      
-      // Show appropriate toast
+  // Announce when the backend model comes (back) online; predictions switch to it automatically
+  const wasAvailable = useRef<boolean | null>(null);
+  useEffect(() => {
+    if (modelStatus.isAvailable === null) return;
+    if (modelStatus.isAvailable && wasAvailable.current === false) {
       toast({
-        title: source === 'API' ? "ML Model Prediction" : "Fallback Prediction",
-        description: source === 'API' 
-          ? "Prediction from trained machine learning model" 
-          : "Using simplified calculation as fallback",
-        variant: source === 'API' ? "default" : "destructive",
+        title: "Backend Model Connected",
+        description: "Predictions now use the trained machine learning model",
       });
+    }
+    wasAvailable.current = modelStatus.isAvailable;
+  }, [modelStatus.isAvailable]);
+
+  // Starts a prediction and returns a check for whether it is still the latest
+  const startPrediction = (data: HouseData) => {
+    const request = ++latestRequest.current;
+    // Keep the URL in step with the estimate shown, so it can be bookmarked or shared
+    setSearchParams(houseDataToSearchParams(data), { replace: true });
+    return () => request === latestRequest.current;
+  };
+
+  const handleFormSubmit = (data: HouseData) => {
+    const isLatest = startPrediction(data);
+    prediction.mutate(data, {
+      onSuccess: (outcome) => {
+        if (!isLatest()) return;
+        setEstimate({ input: data, outcome });
+
+        const { source, failure } = outcome;
+        if (failure) {
+          console.warn("API prediction failed, falling back:", failure);
+        }
+        const fallbackReason = failure ? describeApiFailure(failure).title : null;
+        const fallbackName = getActiveBrowserModel() ? "in-browser trained model" : "simplified calculation";
+
+        // Show appropriate toast
+        toast({
+          title: source === 'API' ? "ML Model Prediction" : "Fallback Prediction",
+          description: source === 'API' 
+            ? "Prediction from trained machine learning model" 
+            : fallbackReason
+              ? `${fallbackReason}. Using ${fallbackName} as fallback`
+              : `Using ${fallbackName} as fallback`,
+          variant: source === 'API' ? "default" : "destructive",
+        });
 
-      // Scroll to results on mobile
-      scrollToResults();
-    } catch (error) {
-      console.error("Prediction failed:", error);
+        // Scroll to results on mobile
+        scrollToResults();
+      },
+      onError: toastPredictionError
+    });
+  };
+
+  // Live pricing stays quiet: no toasts or scrolling, only the updated estimate
+  const handleLiveChange = (data: HouseData) => {
+    const isLatest = startPrediction(data);
+    livePrediction.mutate(data, {
+      onSuccess: (outcome) => {
+        if (isLatest()) setEstimate({ input: data, outcome });
+      },
+      onError: toastPredictionError
+    });
+  };
+
+  // Run the prediction for a shared link once the backend status is known,
+  // so it uses the same model the sender's estimate would
+  const hasHandledLink = useRef(false);
+  useEffect(() => {
+    if (hasHandledLink.current || modelStatusQuery.isPending) return;
+    hasHandledLink.current = true;
+
+    if (linkedData) {
+      handleFormSubmit(linkedData);
+    } else if (houseDataFields.some(field => searchParams.has(field))) {
       toast({
-        title: "Prediction Error",
-        description: "An unexpected error occurred",
+        title: "Link details not applied",
+        description: "The link's house details are missing or out of range, so the defaults are shown.",
         variant: "destructive",
       });
-    } finally {
-      setIsLoading(false);
     }
-  };
+  });
 
   const scrollToResults = () => {
     if (window.innerWidth < 768) {
@@ -128,32 +158,21 @@ const Index: React.FC = () => {
           <Header />
           
           {/* Status Alert */}
-          {modelStatus.isLoading && (
-            <div className="my-4 p-4 bg-blue-50 border-l-4 border-blue-500 text-blue-700">
-              <p className="font-medium">Checking backend status...</p>
-            </div>
-          )}
-          
-          {modelStatus.error && (
-            <div className="my-4 p-4 bg-red-50 border-l-4 border-red-500 text-red-700">
-              <p className="font-medium">Backend Connection Error</p>
-              <p className="text-sm">{modelStatus.error}</p>
-            </div>
-          )}
-          
-          {modelStatus.isAvailable === false && !modelStatus.isLoading && (
-            <div className="my-4 p-4 bg-yellow-50 border-l-4 border-yellow-500 text-yellow-700">
-              <p className="font-medium">Backend Model Unavailable</p>
-              <p className="text-sm">Using simplified frontend prediction model</p>
-            </div>
-          )}
+          <BackendStatusBanner
+            isChecking={modelStatus.isLoading}
+            isModelTrained={modelStatus.isAvailable}
+            failure={modelStatus.failure}
+          />
 
           {/* Main Content */}
           <div className="mt-10 grid grid-cols-1 lg:grid-cols-3 gap-8">
             <div className="lg:col-span-2">
               <HouseForm 
+                defaultValues={linkedData ?? undefined}
+                enableDrafts
                 onSubmit={handleFormSubmit} 
-                isLoading={isLoading}
+                onLiveChange={handleLiveChange}
+                isLoading={prediction.isPending}
                 isBackendReady={modelStatus.isAvailable === true}
               />
             </div>
@@ -161,15 +180,32 @@ const Index: React.FC = () => {
             <div className="lg:col-span-1 space-y-8">
               <div id="prediction-result">
                 <PredictionResult 
-                  price={predictedPrice} 
-                  isLoading={isLoading}
-                  isUsingFallback={modelStatus.isAvailable === false}
+                  price={estimate?.outcome.price ?? null} 
+                  range={estimate?.outcome.range}
+                  confidence={estimate?.outcome.confidence}
+                  input={estimate?.input}
+                  isLoading={prediction.isPending}
+                  isUpdating={livePrediction.isPending}
+                  isUsingFallback={estimate?.outcome.source === 'fallback'}
                 />
               </div>
+
+              {estimate?.outcome.explanation && !prediction.isPending && (
+                <PredictionExplanation
+                  explanation={estimate.outcome.explanation}
+                  price={estimate.outcome.price}
+                />
+              )}
+
+              {estimate && !prediction.isPending && (
+                <SensitivityPanel input={estimate.input} />
+              )}
               
               <FeatureImportance 
                 isBackendAvailable={modelStatus.isAvailable === true}
               />
+
+              <BrowserModelPanel />
             </div>
           </div>
         </div>
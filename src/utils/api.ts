@@ -1,6 +1,100 @@
-export const fetchWithHandling = async <T>(url: string, options?: RequestInit): Promise<T> => {
+import type { ZodIssue, ZodType } from "zod";
+
+// Every way a backend request can fail, as seen by the UI
+export type ApiFailure =
+    | { kind: 'network'; message: string }
+    | { kind: 'cors'; message: string }
+    | { kind: 'timeout'; message: string }
+    | { kind: 'aborted'; message: string }
+    | { kind: 'http'; status: number; message: string }
+    | { kind: 'server'; status: number; message: string }
+    | { kind: 'invalid-payload'; message: string; issues: ZodIssue[] }
+    | { kind: 'invalid-request'; message: string; issues: ZodIssue[] }
+    // Anything else thrown while handling the request, e.g. a bug in the client
+    | { kind: 'unknown'; message: string };
+
+export type ApiResult<T> =
+    | { status: 'success'; data: T }
+    | { status: 'error'; error: ApiFailure };
+
+// Thrown when a backend response does not match its expected schema
+export class ApiValidationError extends Error {
+    readonly url: string;
+    readonly issues: ZodIssue[];
+
+    constructor(url: string, issues: ZodIssue[]) {
+        const summary = issues
+            .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+            .join('; ');
+        super(`Unexpected response from ${url}: ${summary}`);
+        this.name = 'ApiValidationError';
+        this.url = url;
+        this.issues = issues;
+    }
+}
+
+// Thrown for non-2xx responses. serverMessage is set when the backend
+// explained the failure in its JSON body ({ error } or { message }).
+export class ApiHttpError extends Error {
+    readonly status: number;
+    readonly serverMessage: string | null;
+
+    constructor(status: number, serverMessage: string | null) {
+        super(serverMessage || `HTTP error! Status: ${status}`);
+        this.name = 'ApiHttpError';
+        this.status = status;
+        this.serverMessage = serverMessage;
+    }
+}
+
+// Thrown when no response was received at all
+export class ApiNetworkError extends Error {
+    readonly corsBlocked: boolean;
+
+    constructor(message: string, corsBlocked: boolean) {
+        super(message);
+        this.name = 'ApiNetworkError';
+        this.corsBlocked = corsBlocked;
+    }
+}
+
+// Carries an ApiFailure through code that expects thrown errors (e.g. react-query)
+export class ApiRequestError extends Error {
+    readonly failure: ApiFailure;
+
+    constructor(failure: ApiFailure) {
+        super(failure.message);
+        this.name = 'ApiRequestError';
+        this.failure = failure;
+    }
+}
+
+// Browsers report CORS rejections exactly like an unreachable host. An opaque
+// no-cors request still succeeds when the server is up, which tells them apart.
+// The probe shares the request's signal, so it stops on cancel or timeout.
+const isBlockedByCors = async (url: string, signal?: AbortSignal): Promise<boolean> => {
+    if (new URL(url, window.location.href).origin === window.location.origin) {
+        return false;
+    }
+    try {
+        await fetch(url, { method: 'GET', mode: 'no-cors', signal });
+        return true;
+    } catch (error) {
+        if (error instanceof DOMException) throw error; // Aborted or timed out
+        return false;
+    }
+};
+
+export const fetchWithHandling = async <T>(url: string, options?: RequestInit, schema?: ZodType<T>): Promise<T> => {
     try {
-        const response = await fetch(url, options);
+        let response: Response;
+        try {
+            response = await fetch(url, options);
+        } catch (error) {
+            if (error instanceof DOMException) throw error; // Aborted or timed out
+            const corsBlocked = await isBlockedByCors(url, options?.signal);
+            throw new ApiNetworkError(error instanceof Error ? error.message : String(error), corsBlocked);
+        }
       
         // Handle HTTP errors
         if (!response.ok) {
@@ -9,23 +103,90 @@ export const fetchWithHandling = async <T>(url: string, options?: RequestInit):
                 const text = await response.text();
                 console.error(`❌ API Error Response (Text):`, text);
                 errorData = JSON.parse(text);  // Attempt JSON parsing
-            } catch {
-                errorData = { message: "Non-JSON error response" };
+            } catch (error) {
+                if (error instanceof DOMException) throw error; // Aborted while reading the body
+                errorData = {};
             }
-            throw new Error(errorData.message || `HTTP error! Status: ${response.status}`);
+            throw new ApiHttpError(response.status, errorData?.error || errorData?.message || null);
         }
 
         // Verify content type
         const contentType = response.headers.get('content-type');
         if (!contentType?.includes('application/json')) {
-            throw new Error(`Invalid content type: ${contentType}`);
+            throw new ApiValidationError(url, [
+                { code: 'custom', path: [], message: `Invalid content type: ${contentType}` }
+            ]);
         }
 
-        const result = await response.json();
+        // A body that is not valid JSON (e.g. Flask serialising NaN) is a bad
+        // payload from a live backend, not a connection problem
+        let result: unknown;
+        try {
+            result = await response.json();
+        } catch (error) {
+            if (error instanceof DOMException) throw error; // Aborted while reading the body
+            throw new ApiValidationError(url, [
+                { code: 'custom', path: [], message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` }
+            ]);
+        }
         console.log(`✅ API Success Response for ${url}:`, result);
-        return result as T;
+
+        if (!schema) {
+            return result as T;
+        }
+
+        // Validate the payload against the expected contract
+        const parsed = schema.safeParse(result);
+        if (!parsed.success) {
+            throw new ApiValidationError(url, parsed.error.issues);
+        }
+        return parsed.data;
     } catch (error) {
         console.error(`❌ API request failed for ${url}:`, error);
         throw error; // Re-throw for component-level handling
     }
 };
+
+// Classify anything thrown by fetchWithHandling
+export const toApiFailure = (error: unknown): ApiFailure => {
+    if (error instanceof ApiValidationError) {
+        return { kind: 'invalid-payload', message: error.message, issues: error.issues };
+    }
+    if (error instanceof ApiHttpError) {
+        return error.serverMessage
+            ? { kind: 'server', status: error.status, message: error.serverMessage }
+            : { kind: 'http', status: error.status, message: error.message };
+    }
+    if (error instanceof ApiNetworkError) {
+        return { kind: error.corsBlocked ? 'cors' : 'network', message: error.message };
+    }
+    if (error instanceof DOMException && error.name === 'TimeoutError') {
+        return { kind: 'timeout', message: error.message };
+    }
+    if (error instanceof DOMException && error.name === 'AbortError') {
+        return { kind: 'aborted', message: error.message };
+    }
+    return { kind: 'unknown', message: error instanceof Error ? error.message : String(error) };
+};
+
+export const unwrapApiResult = <T>(result: ApiResult<T>): T => {
+    if (result.status === 'error') {
+        throw new ApiRequestError(result.error);
+    }
+    return result.data;
+};
+
+// Failures meaning the backend is gone or has no model, as opposed to a bad request
+export const isBackendUnavailable = (failure: ApiFailure): boolean => {
+    switch (failure.kind) {
+        case 'network':
+        case 'cors':
+        case 'timeout':
+            return true;
+        case 'http':
+        case 'server':
+            return failure.status === 503;
+        default:
+            return false;
+    }
+};
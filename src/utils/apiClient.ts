@@ -0,0 +1,169 @@
+import type { ZodType } from 'zod';
+import { ApiFailure, ApiResult, fetchWithHandling, toApiFailure } from './api';
+
+// Backend routes, relative to the API base URL
+export const API_ENDPOINTS = {
+  predict: '/api/predict',
+  predictBatch: '/api/predict/batch',
+  modelStatus: '/api/model/status',
+  neighborhoods: '/api/neighborhoods',
+  propertyTypes: '/api/property-types',
+  featureImportances: '/api/model/feature-importances',
+} as const;
+
+// Resolve the backend base URL. Runtime config (public/config.js) wins so a
+// built bundle can be pointed elsewhere without rebuilding, then the
+// VITE_API_URL build-time variable. An empty base URL means same-origin
+// requests, which the Vite dev server proxies to Flask.
+export function getApiBaseUrl(): string {
+  const runtimeUrl = window.__APP_CONFIG__?.apiUrl;
+  const baseUrl = runtimeUrl || import.meta.env.VITE_API_URL || '';
+  return baseUrl.replace(/\/+$/, '');
+}
+
+export function buildApiUrl(path: string): string {
+  return `${getApiBaseUrl()}${path}`;
+}
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface ApiRequestOptions extends Omit<RequestInit, 'method' | 'body' | 'signal'> {
+  // Abort the request when this signal fires (e.g. a newer request superseded it)
+  signal?: AbortSignal;
+  timeoutMs?: number;
+  // Retries with exponential backoff; only safe for idempotent requests
+  retry?: RetryOptions | false;
+}
+
+export const DEFAULT_TIMEOUT_MS = Number(import.meta.env.VITE_API_TIMEOUT_MS) || 10000;
+
+export const DEFAULT_GET_RETRY: RetryOptions = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+};
+
+// Transient failures worth another attempt. A 503 from this backend means
+// the model is not trained, which retrying will not fix.
+function isRetryable(failure: ApiFailure): boolean {
+  switch (failure.kind) {
+    case 'network':
+    case 'timeout':
+      return true;
+    case 'http':
+    case 'server':
+      return failure.status >= 500 && failure.status !== 503;
+    default:
+      return false;
+  }
+}
+
+// Exponential backoff with jitter so clients do not retry in lockstep
+function backoffDelay(attempt: number, retry: RetryOptions): number {
+  const delay = Math.min(retry.maxDelayMs, retry.baseDelayMs * 2 ** attempt);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Request was cancelled', 'AbortError'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Request was cancelled', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// A single attempt, aborted when the caller's signal fires or the timeout elapses
+async function attempt<T>(url: string, init: RequestInit, schema: ZodType<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+
+  if (signal?.aborted) controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    return await fetchWithHandling(url, { ...init, signal: controller.signal }, schema);
+  } catch (error) {
+    if (timedOut) {
+      throw new DOMException(`Request timed out after ${timeoutMs}ms`, 'TimeoutError');
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+}
+
+async function request<T>(path: string, init: RequestInit, schema: ZodType<T>, options: ApiRequestOptions): Promise<ApiResult<T>> {
+  const { signal, timeoutMs = DEFAULT_TIMEOUT_MS, retry = false } = options;
+  const url = buildApiUrl(path);
+  const maxAttempts = retry ? retry.retries + 1 : 1;
+
+  for (let attemptIndex = 0; ; attemptIndex++) {
+    try {
+      const data = await attempt(url, init, schema, timeoutMs, signal);
+      return { status: 'success', data };
+    } catch (error) {
+      const failure = toApiFailure(error);
+      if (!retry || attemptIndex + 1 >= maxAttempts || !isRetryable(failure)) {
+        return { status: 'error', error: failure };
+      }
+
+      const delay = backoffDelay(attemptIndex, retry);
+      console.warn(`Retrying ${url} in ${Math.round(delay)}ms (attempt ${attemptIndex + 2}/${maxAttempts})`);
+      try {
+        await wait(delay, signal);
+      } catch (abortError) {
+        return { status: 'error', error: toApiFailure(abortError) };
+      }
+    }
+  }
+}
+
+// Every response is validated against its schema, and failures are returned
+// as a classified ApiFailure rather than thrown
+export const apiClient = {
+  get<T>(path: string, schema: ZodType<T>, options: ApiRequestOptions = {}): Promise<ApiResult<T>> {
+    const { signal, timeoutMs, retry = DEFAULT_GET_RETRY, ...init } = options;
+    return request(path, {
+      ...init,
+      method: 'GET',
+      headers: {
+        'Accept': 'application/json',
+        ...init.headers,
+      },
+    }, schema, { signal, timeoutMs, retry });
+  },
+
+  post<T>(path: string, body: unknown, schema: ZodType<T>, options: ApiRequestOptions = {}): Promise<ApiResult<T>> {
+    const { signal, timeoutMs, retry = false, ...init } = options;
+    return request(path, {
+      ...init,
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+        ...init.headers,
+      },
+      body: JSON.stringify(body),
+    }, schema, { signal, timeoutMs, retry });
+  },
+};
@@ -0,0 +1,79 @@
+import { ApiFailure } from "./api";
+import { getApiBaseUrl } from "./apiClient";
+
+export interface ApiFailureMessage {
+  title: string;
+  description: string;
+  severity: 'warning' | 'error';
+}
+
+// Turn a classified API failure into a user-facing, actionable message
+export function describeApiFailure(failure: ApiFailure): ApiFailureMessage {
+  const backend = getApiBaseUrl() || window.location.origin;
+
+  switch (failure.kind) {
+    case 'network':
+      return {
+        title: "Backend Unreachable",
+        description: `Could not reach the prediction server at ${backend}. Start it with "python app.py" in the backend folder, or check the configured API URL.`,
+        severity: 'error'
+      };
+    case 'cors':
+      return {
+        title: "Request Blocked by CORS",
+        description: `The backend is running but does not allow requests from ${window.location.origin}. Add this origin to CORS_ORIGINS in backend/.env and restart the server.`,
+        severity: 'error'
+      };
+    case 'timeout':
+      return {
+        title: "Backend Timed Out",
+        description: "The prediction server did not respond in time. It may be busy or stuck; try again shortly.",
+        severity: 'error'
+      };
+    case 'aborted':
+      return {
+        title: "Request Cancelled",
+        description: "The request was superseded by a newer one.",
+        severity: 'warning'
+      };
+    case 'invalid-payload':
+      return {
+        title: "Unexpected Backend Response",
+        description: "The backend returned data in an unexpected format. The frontend and backend versions may be out of sync.",
+        severity: 'error'
+      };
+    case 'invalid-request':
+      return {
+        title: "Invalid Input",
+        description: `The property details were not sent: ${failure.issues.map((issue) => issue.message).join('; ')}`,
+        severity: 'error'
+      };
+    case 'unknown':
+      return {
+        title: "Request Failed",
+        description: `Something went wrong while talking to the backend: ${failure.message}`,
+        severity: 'error'
+      };
+    case 'http':
+    case 'server':
+      if (failure.status === 503) {
+        return {
+          title: "Model Not Trained",
+          description: `${failure.kind === 'server' ? `${failure.message} ` : ''}Run "python train_model.py" in the backend folder, then restart the server.`,
+          severity: 'warning'
+        };
+      }
+      if (failure.status === 400) {
+        return {
+          title: "Invalid Input",
+          description: `The backend rejected the request: ${failure.message}`,
+          severity: 'error'
+        };
+      }
+      return {
+        title: `Server Error (${failure.status})`,
+        description: failure.message,
+        severity: 'error'
+      };
+  }
+}
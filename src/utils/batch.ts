@@ -0,0 +1,221 @@
+import { HouseData, PriceRange, propertyTypeLabels } from '../data/modelData';
+import { fallbackModel } from '../data/fallbackModel';
+import { MODEL_CURRENCY } from './currency';
+import { CsvRecord, formatCsv } from './csv';
+import { datasetHouseDataSchema, houseDataSchema } from './schemas';
+import { floorAreaFromDisplay, lotSizeFromDisplay } from './units';
+
+// Batch CSVs use either HouseData field names (square feet, acres) or the raw
+// melb_data.csv layout (square metres); columns are matched case-insensitively.
+
+export type BatchField = keyof HouseData;
+
+export type ColumnLayout = 'form' | 'dataset';
+
+export interface ColumnSource {
+  column: string;
+  layout: ColumnLayout;
+}
+
+export type ColumnMapping = Partial<Record<BatchField, ColumnSource>>;
+
+const FIELD_COLUMNS: Record<BatchField, string[]> = {
+  squareFootage: ['BuildingArea'],
+  bedrooms: ['Rooms', 'Bedroom2'],
+  bathrooms: ['Bathroom'],
+  yearBuilt: ['YearBuilt'],
+  neighborhood: ['Suburb'],
+  lotSize: ['Landsize'],
+  garage: ['Car'],
+  propertyType: ['Type'],
+  basement: [],
+  centralAir: [],
+  kitchenQuality: [],
+};
+
+export const BATCH_FIELDS = Object.keys(FIELD_COLUMNS) as BatchField[];
+
+export const REQUIRED_BATCH_FIELDS: BatchField[] = [
+  'squareFootage', 'bedrooms', 'bathrooms', 'yearBuilt', 'neighborhood', 'lotSize', 'garage'
+];
+
+export function detectColumnMapping(columns: string[]): ColumnMapping {
+  const byName = new Map(columns.map((column) => [column.toLowerCase(), column]));
+  const mapping: ColumnMapping = {};
+
+  BATCH_FIELDS.forEach((field) => {
+    const formColumn = byName.get(field.toLowerCase());
+    if (formColumn) {
+      mapping[field] = { column: formColumn, layout: 'form' };
+      return;
+    }
+    const datasetColumn = FIELD_COLUMNS[field].map((name) => byName.get(name.toLowerCase())).find(Boolean);
+    if (datasetColumn) {
+      mapping[field] = { column: datasetColumn, layout: 'dataset' };
+    }
+  });
+  return mapping;
+}
+
+// A file with any dataset column is checked against the dataset's ranges and
+// has its blank numbers filled in. YearBuilt matches by either name.
+export const usesDatasetLayout = (mapping: ColumnMapping) =>
+  Object.values(mapping).some((source) => source.layout === 'dataset');
+
+export function findMissingFields(mapping: ColumnMapping): BatchField[] {
+  return REQUIRED_BATCH_FIELDS.filter((field) => !mapping[field]);
+}
+
+export interface BatchRow {
+  // 1-based data row number, excluding the header
+  row: number;
+  record: CsvRecord;
+  data: HouseData | null;
+  errors: string[];
+  // Checked against the dataset's ranges rather than the form's
+  datasetRanges: boolean;
+  // Fields that were blank and filled in with the dataset's typical value
+  imputed: BatchField[];
+}
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+// Accept the dataset's type codes (h, u, t) or their labels
+const parsePropertyType = (value: string) => {
+  const code = Object.keys(propertyTypeLabels).find((key) =>
+    key === value.toLowerCase() || propertyTypeLabels[key].toLowerCase() === value.toLowerCase()
+  );
+  return code ?? value;
+};
+
+// Blank dataset cells are filled the way backend/train_model.py fills them:
+// no car spaces, otherwise the dataset median (areas converted to HouseData units)
+const DATASET_DEFAULTS: Partial<Record<BatchField, number>> = {
+  squareFootage: floorAreaFromDisplay(fallbackModel.featureMedians.buildingArea, 'metric'),
+  bedrooms: fallbackModel.featureMedians.bedrooms,
+  bathrooms: fallbackModel.featureMedians.bathrooms,
+  yearBuilt: fallbackModel.featureMedians.yearBuilt,
+  lotSize: lotSizeFromDisplay(fallbackModel.featureMedians.landsize, 'metric'),
+  garage: 0,
+};
+
+interface ParsedRecord {
+  values: Partial<HouseData>;
+  errors: string[];
+  imputed: BatchField[];
+}
+
+function parseRecord(record: CsvRecord, mapping: ColumnMapping, datasetLayout: boolean): ParsedRecord {
+  const values: Partial<HouseData> = {};
+  const errors: string[] = [];
+  const imputed: BatchField[] = [];
+
+  BATCH_FIELDS.forEach((field) => {
+    const source = mapping[field];
+    const raw = source ? record[source.column] ?? '' : '';
+    if (raw === '') {
+      if (source && datasetLayout && DATASET_DEFAULTS[field] !== undefined) {
+        (values as Record<BatchField, unknown>)[field] = DATASET_DEFAULTS[field];
+        imputed.push(field);
+      }
+      return;
+    }
+
+    switch (field) {
+      case 'neighborhood':
+        values.neighborhood = raw;
+        break;
+      case 'propertyType':
+        values.propertyType = parsePropertyType(raw);
+        break;
+      case 'basement':
+      case 'centralAir':
+        if (TRUE_VALUES.includes(raw.toLowerCase())) values[field] = true;
+        else if (FALSE_VALUES.includes(raw.toLowerCase())) values[field] = false;
+        else errors.push(`${source.column}: "${raw}" is not yes or no`);
+        break;
+      default: {
+        const value = Number(raw);
+        if (source.layout === 'dataset' && field === 'squareFootage') values[field] = floorAreaFromDisplay(value, 'metric');
+        else if (source.layout === 'dataset' && field === 'lotSize') values[field] = lotSizeFromDisplay(value, 'metric');
+        else values[field] = value;
+      }
+    }
+  });
+  return { values, errors, imputed };
+}
+
+// Map and validate every record; rows with errors have no data
+export function parseBatchRows(records: CsvRecord[], mapping: ColumnMapping): BatchRow[] {
+  const datasetRanges = usesDatasetLayout(mapping);
+  const schema = datasetRanges ? datasetHouseDataSchema : houseDataSchema;
+  return records.map((record, index) => {
+    const { values, errors, imputed } = parseRecord(record, mapping, datasetRanges);
+    const parsed = schema.safeParse(values);
+    if (!parsed.success) {
+      errors.push(...parsed.error.issues.map((issue) => issue.message));
+    }
+    return {
+      row: index + 1,
+      record,
+      data: parsed.success && errors.length === 0 ? parsed.data as HouseData : null,
+      errors,
+      datasetRanges,
+      imputed,
+    };
+  });
+}
+
+export interface BatchResult {
+  price: number | null;
+  range: PriceRange | null;
+  source: 'API' | 'fallback' | null;
+  error: string | null;
+}
+
+// Run worker over items with at most `limit` in flight; stops starting new items once aborted
+export async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  let next = 0;
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length && !signal?.aborted) {
+      await worker(items[next++]);
+    }
+  });
+  await Promise.all(runners);
+}
+
+// Exported prices stay in the model currency, so their headers name it
+const PRICE_COLUMN = `predictedPrice (${MODEL_CURRENCY})`;
+const PRICE_LOW_COLUMN = `priceLow (${MODEL_CURRENCY})`;
+const PRICE_HIGH_COLUMN = `priceHigh (${MODEL_CURRENCY})`;
+
+export const RESULT_COLUMNS = [PRICE_COLUMN, PRICE_LOW_COLUMN, PRICE_HIGH_COLUMN, 'currency', 'source', 'error'];
+
+// The uploaded columns as they were, followed by the results. Prices are in the model currency.
+export function formatBatchResultsCsv(columns: string[], rows: BatchRow[], results: (BatchResult | undefined)[]): string {
+  const records = rows.map((row, index) => {
+    const result = results[index];
+    return {
+      ...row.record,
+      [PRICE_COLUMN]: result?.price?.toString() ?? '',
+      [PRICE_LOW_COLUMN]: result?.range?.low.toString() ?? '',
+      [PRICE_HIGH_COLUMN]: result?.range?.high.toString() ?? '',
+      currency: result?.price === null || !result ? '' : MODEL_CURRENCY,
+      source: result?.source ?? '',
+      error: result ? result.error ?? '' : 'Not predicted',
+    };
+  });
+  return formatCsv([...columns.filter((column) => !RESULT_COLUMNS.includes(column)), ...RESULT_COLUMNS], records);
+}
+
+// A header row in HouseData units plus one example row
+export function formatBatchTemplateCsv(example: HouseData): string {
+  const record = Object.fromEntries(BATCH_FIELDS.map((field) => [field, String(example[field] ?? '')]));
+  return formatCsv(BATCH_FIELDS, [record]);
+}
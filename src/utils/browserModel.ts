@@ -0,0 +1,330 @@
+import { HouseData, PriceExplanation } from "../data/modelData";
+import { CsvRecord, parseCsv } from "./csv";
+import { toModelUnits } from "./units";
+
+// Ridge regression on log price over the same features train_model.py uses,
+// small enough to fit in a Web Worker in a couple of seconds.
+
+export const NUMERIC_FEATURES = ['bedrooms', 'bathrooms', 'lotSize', 'squareFootage', 'yearBuilt', 'garage'] as const;
+export type NumericFeature = typeof NUMERIC_FEATURES[number];
+
+// Dataset column for each feature, as renamed in train_model.py
+const DATASET_COLUMNS: Record<NumericFeature | 'neighborhood' | 'propertyType' | 'price', string> = {
+  bedrooms: 'Rooms',
+  bathrooms: 'Bathroom',
+  lotSize: 'Landsize',
+  squareFootage: 'BuildingArea',
+  yearBuilt: 'YearBuilt',
+  garage: 'Car',
+  neighborhood: 'Suburb',
+  propertyType: 'Type',
+  price: 'Price',
+};
+
+const REQUIRED_COLUMNS = ['price', 'bedrooms', 'bathrooms', 'neighborhood'] as const;
+
+const TEST_FRACTION = 0.2;
+const SPLIT_SEED = 42;
+const RIDGE_LAMBDA = 1;
+// Numeric inputs are clipped to these training percentiles to tame outliers
+const CLIP_PERCENTILES = [0.01, 0.99] as const;
+
+export interface BrowserModelMetrics {
+  rmse: number;
+  r2: number;
+  // Median absolute error relative to the sale price, on the held-out rows
+  typicalRelativeError: number;
+  trainRows: number;
+  testRows: number;
+}
+
+export interface BrowserModelParams {
+  trainedAt: number;
+  // "bundled" or the uploaded file name
+  source: string;
+  // Imputation values and standardisation, as in the sklearn pipeline
+  medians: Record<NumericFeature, number>;
+  bounds: Record<NumericFeature, [number, number]>;
+  means: Record<NumericFeature, number>;
+  stds: Record<NumericFeature, number>;
+  intercept: number;
+  numericWeights: Record<NumericFeature, number>;
+  neighborhoodWeights: Record<string, number>;
+  propertyTypeWeights: Record<string, number>;
+  metrics: BrowserModelMetrics;
+}
+
+export type TrainingProgress = (stage: string, fraction: number) => void;
+
+interface TrainingExample {
+  numeric: Record<NumericFeature, number | null>;
+  neighborhood: string;
+  propertyType: string;
+  price: number;
+}
+
+function toNumber(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function percentile(sorted: number[], fraction: number): number {
+  if (sorted.length === 0) return 0;
+  return sorted[Math.min(sorted.length - 1, Math.floor(fraction * sorted.length))];
+}
+
+function clamp(value: number, [low, high]: [number, number]): number {
+  return Math.min(high, Math.max(low, value));
+}
+
+// Small seeded PRNG so the train/test split is reproducible
+function mulberry32(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function toExamples(records: CsvRecord[]): TrainingExample[] {
+  return records.flatMap((record) => {
+    const price = toNumber(record[DATASET_COLUMNS.price]);
+    const neighborhood = record[DATASET_COLUMNS.neighborhood];
+    if (price === null || price <= 0 || !neighborhood) return [];
+
+    const numeric = Object.fromEntries(
+      NUMERIC_FEATURES.map((feature) => [feature, toNumber(record[DATASET_COLUMNS[feature]])])
+    ) as Record<NumericFeature, number | null>;
+
+    return [{
+      numeric,
+      neighborhood,
+      propertyType: record[DATASET_COLUMNS.propertyType] || 'h',
+      price,
+    }];
+  });
+}
+
+// Solve A x = b in place by Gaussian elimination with partial pivoting
+function solve(A: Float64Array[], b: Float64Array): Float64Array {
+  const n = b.length;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(A[row][col]) > Math.abs(A[pivot][col])) pivot = row;
+    }
+    [A[col], A[pivot]] = [A[pivot], A[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = A[row][col] / A[col][col];
+      if (factor === 0) continue;
+      for (let k = col; k < n; k++) A[row][k] -= factor * A[col][k];
+      b[row] -= factor * b[col];
+    }
+  }
+  const x = new Float64Array(n);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = b[row];
+    for (let k = row + 1; k < n; k++) sum -= A[row][k] * x[k];
+    x[row] = sum / A[row][row];
+  }
+  return x;
+}
+
+export function trainBrowserModel(csvText: string, source: string, onProgress: TrainingProgress = () => {}): BrowserModelParams {
+  onProgress('Parsing CSV', 0.05);
+  const { columns, records } = parseCsv(csvText);
+
+  const missing = REQUIRED_COLUMNS.filter((key) => !columns.includes(DATASET_COLUMNS[key]));
+  if (missing.length > 0) {
+    throw new Error(`CSV is missing required columns: ${missing.map((key) => DATASET_COLUMNS[key]).join(', ')}`);
+  }
+
+  const examples = toExamples(records);
+  if (examples.length < 50) {
+    throw new Error(`Need at least 50 priced rows to train, found ${examples.length}`);
+  }
+
+  // Deterministic shuffle, then hold out a test split
+  onProgress('Splitting data', 0.1);
+  const random = mulberry32(SPLIT_SEED);
+  const shuffled = [...examples];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  const testSize = Math.round(shuffled.length * TEST_FRACTION);
+  const test = shuffled.slice(0, testSize);
+  const train = shuffled.slice(testSize);
+
+  // Median imputation, clipping and standardisation, fitted on the training split only
+  const medians = {} as Record<NumericFeature, number>;
+  const bounds = {} as Record<NumericFeature, [number, number]>;
+  const means = {} as Record<NumericFeature, number>;
+  const stds = {} as Record<NumericFeature, number>;
+  NUMERIC_FEATURES.forEach((feature) => {
+    const present = train
+      .map((example) => example.numeric[feature])
+      .filter((value): value is number => value !== null)
+      .sort((a, b) => a - b);
+    medians[feature] = median(present);
+    bounds[feature] = [percentile(present, CLIP_PERCENTILES[0]), percentile(present, CLIP_PERCENTILES[1])];
+    const values = train.map((example) => clamp(example.numeric[feature] ?? medians[feature], bounds[feature]));
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+    means[feature] = mean;
+    stds[feature] = Math.sqrt(variance) || 1;
+  });
+
+  const neighborhoods = [...new Set(train.map((example) => example.neighborhood))].sort();
+  const propertyTypes = [...new Set(train.map((example) => example.propertyType))].sort();
+
+  // Column layout: intercept, numeric features, one-hot neighborhoods, one-hot property types
+  const numericOffset = 1;
+  const neighborhoodOffset = numericOffset + NUMERIC_FEATURES.length;
+  const propertyTypeOffset = neighborhoodOffset + neighborhoods.length;
+  const size = propertyTypeOffset + propertyTypes.length;
+  const neighborhoodIndex = new Map(neighborhoods.map((name, i) => [name, neighborhoodOffset + i]));
+  const propertyTypeIndex = new Map(propertyTypes.map((name, i) => [name, propertyTypeOffset + i]));
+
+  const encode = (example: TrainingExample): [number[], number[]] => {
+    const indices = [0];
+    const values = [1];
+    NUMERIC_FEATURES.forEach((feature, i) => {
+      const value = clamp(example.numeric[feature] ?? medians[feature], bounds[feature]);
+      indices.push(numericOffset + i);
+      values.push((value - means[feature]) / stds[feature]);
+    });
+    const neighborhood = neighborhoodIndex.get(example.neighborhood);
+    if (neighborhood !== undefined) {
+      indices.push(neighborhood);
+      values.push(1);
+    }
+    const propertyType = propertyTypeIndex.get(example.propertyType);
+    if (propertyType !== undefined) {
+      indices.push(propertyType);
+      values.push(1);
+    }
+    return [indices, values];
+  };
+
+  // Accumulate the normal equations; rows are sparse so this stays cheap
+  onProgress('Building normal equations', 0.2);
+  const xtx = Array.from({ length: size }, () => new Float64Array(size));
+  const xty = new Float64Array(size);
+  train.forEach((example, r) => {
+    const [indices, values] = encode(example);
+    const target = Math.log(example.price);
+    for (let a = 0; a < indices.length; a++) {
+      xty[indices[a]] += values[a] * target;
+      for (let b = 0; b < indices.length; b++) {
+        xtx[indices[a]][indices[b]] += values[a] * values[b];
+      }
+    }
+    if (r % 2000 === 0) onProgress('Building normal equations', 0.2 + 0.3 * (r / train.length));
+  });
+
+  // Ridge penalty on everything except the intercept
+  for (let i = 1; i < size; i++) xtx[i][i] += RIDGE_LAMBDA;
+
+  onProgress('Solving', 0.6);
+  const weights = solve(xtx, xty);
+
+  const params: BrowserModelParams = {
+    trainedAt: Date.now(),
+    source,
+    medians,
+    bounds,
+    means,
+    stds,
+    intercept: weights[0],
+    numericWeights: Object.fromEntries(NUMERIC_FEATURES.map((feature, i) => [feature, weights[numericOffset + i]])) as Record<NumericFeature, number>,
+    neighborhoodWeights: Object.fromEntries(neighborhoods.map((name) => [name, weights[neighborhoodIndex.get(name)]])),
+    propertyTypeWeights: Object.fromEntries(propertyTypes.map((name) => [name, weights[propertyTypeIndex.get(name)]])),
+    metrics: { rmse: 0, r2: 0, typicalRelativeError: 0, trainRows: train.length, testRows: test.length },
+  };
+
+  // Evaluate on the held-out split, in price space
+  onProgress('Evaluating', 0.9);
+  const actual = test.map((example) => example.price);
+  const predicted = test.map((example) => Math.exp(predictLogPrice(params, example)));
+  const meanActual = actual.reduce((sum, value) => sum + value, 0) / actual.length;
+  const squaredError = actual.reduce((sum, value, i) => sum + (value - predicted[i]) ** 2, 0);
+  const totalVariance = actual.reduce((sum, value) => sum + (value - meanActual) ** 2, 0);
+
+  params.metrics.rmse = Math.sqrt(squaredError / actual.length);
+  params.metrics.r2 = 1 - squaredError / totalVariance;
+  params.metrics.typicalRelativeError = median(actual.map((value, i) => Math.abs(predicted[i] - value) / value));
+
+  onProgress('Done', 1);
+  return params;
+}
+
+type ModelFeature = NumericFeature | 'neighborhood' | 'propertyType';
+
+// Each feature's term in the log price, on top of the intercept
+function logPriceTerms(params: BrowserModelParams, example: Omit<TrainingExample, 'price'>): Record<ModelFeature, number> {
+  const terms = {
+    neighborhood: params.neighborhoodWeights[example.neighborhood] ?? 0,
+    propertyType: params.propertyTypeWeights[example.propertyType] ?? 0,
+  } as Record<ModelFeature, number>;
+  NUMERIC_FEATURES.forEach((feature) => {
+    const value = clamp(example.numeric[feature] ?? params.medians[feature], params.bounds[feature]);
+    terms[feature] = params.numericWeights[feature] * (value - params.means[feature]) / params.stds[feature];
+  });
+  return terms;
+}
+
+function predictLogPrice(params: BrowserModelParams, example: Omit<TrainingExample, 'price'>): number {
+  const terms = logPriceTerms(params, example);
+  return Object.values(terms).reduce((logPrice, term) => logPrice + term, params.intercept);
+}
+
+function toExample(data: HouseData): Omit<TrainingExample, 'price'> {
+  const { buildingArea, landsize } = toModelUnits(data);
+  return {
+    numeric: {
+      bedrooms: data.bedrooms,
+      bathrooms: data.bathrooms,
+      lotSize: landsize,
+      squareFootage: buildingArea,
+      yearBuilt: data.yearBuilt,
+      garage: data.garage,
+    },
+    neighborhood: data.neighborhood,
+    propertyType: data.propertyType || 'h',
+  };
+}
+
+// Predict a sale price for form input (imperial units) with trained parameters
+export function predictWithBrowserModel(params: BrowserModelParams, data: HouseData): number {
+  return Math.exp(predictLogPrice(params, toExample(data)));
+}
+
+// Break a prediction down from the price of an average property (the
+// intercept). Terms multiply the price, so each feature's contribution
+// depends on the ones applied before it; they are applied in this order.
+const EXPLANATION_ORDER: ModelFeature[] = [
+  'neighborhood', 'propertyType', 'squareFootage', 'bedrooms', 'bathrooms', 'lotSize', 'yearBuilt', 'garage'
+];
+
+export function explainBrowserModelPrediction(params: BrowserModelParams, data: HouseData): PriceExplanation {
+  const terms = logPriceTerms(params, toExample(data));
+  let logPrice = params.intercept;
+  const contributions = EXPLANATION_ORDER.map((feature) => {
+    const before = Math.exp(logPrice);
+    logPrice += terms[feature];
+    return { feature, contribution: Math.exp(logPrice) - before };
+  });
+  return { baseline: Math.exp(params.intercept), contributions };
+}
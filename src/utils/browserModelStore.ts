@@ -0,0 +1,83 @@
+import datasetUrl from '../../backend/data/melb_data.csv?url';
+import type { TrainModelMessage } from '../workers/trainModel.worker';
+import { HouseData, PriceExplanation } from '../data/modelData';
+import { BrowserModelParams, explainBrowserModelPrediction, predictWithBrowserModel } from './browserModel';
+import { deleteRecord, getRecord, putRecord } from './indexedDb';
+
+// The fitted model is stored under a single key; retraining replaces it
+const MODEL_KEY = 'active';
+
+interface StoredBrowserModel {
+  id: string;
+  params: BrowserModelParams;
+}
+
+// Parameters used by predictPrice, set once loaded from IndexedDB or trained
+let activeModel: BrowserModelParams | null = null;
+
+export function getActiveBrowserModel(): BrowserModelParams | null {
+  return activeModel;
+}
+
+export function predictWithActiveBrowserModel(data: HouseData): number | null {
+  return activeModel ? predictWithBrowserModel(activeModel, data) : null;
+}
+
+export function explainWithActiveBrowserModel(data: HouseData): PriceExplanation | null {
+  return activeModel ? explainBrowserModelPrediction(activeModel, data) : null;
+}
+
+export async function loadBrowserModel(): Promise<BrowserModelParams | null> {
+  const stored = await getRecord<StoredBrowserModel>('browserModels', MODEL_KEY);
+  activeModel = stored?.params ?? null;
+  return activeModel;
+}
+
+export async function saveBrowserModel(params: BrowserModelParams): Promise<void> {
+  await putRecord<StoredBrowserModel>('browserModels', { id: MODEL_KEY, params });
+  activeModel = params;
+}
+
+export async function clearBrowserModel(): Promise<void> {
+  await deleteRecord('browserModels', MODEL_KEY);
+  activeModel = null;
+}
+
+export async function fetchBundledDataset(): Promise<string> {
+  const response = await fetch(datasetUrl);
+  if (!response.ok) {
+    throw new Error(`Could not load the bundled dataset (status ${response.status})`);
+  }
+  return response.text();
+}
+
+// Fit a model in a Web Worker so the page stays responsive
+export function trainInWorker(
+  csvText: string,
+  source: string,
+  onProgress?: (stage: string, fraction: number) => void
+): Promise<BrowserModelParams> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/trainModel.worker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<TrainModelMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.stage, message.fraction);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'done') {
+        resolve(message.params);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Model training failed'));
+    };
+
+    worker.postMessage({ csvText, source });
+  });
+}
@@ -0,0 +1,68 @@
+// Minimal RFC 4180 CSV parsing: quoted fields, escaped quotes and CRLF line endings
+
+export type CsvRecord = Record<string, string>;
+
+export function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Ignore blank lines
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+}
+
+// Parse CSV text with a header row into records keyed by column name
+export function parseCsv(text: string): { columns: string[]; records: CsvRecord[] } {
+  const [header = [], ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  const columns = header.map((column) => column.trim());
+  const records = rows.map((cells) =>
+    Object.fromEntries(columns.map((column, i) => [column, (cells[i] ?? '').trim()]))
+  );
+  return { columns, records };
+}
+
+const escapeCsvField = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// Serialize records with the given columns, in order, as CSV text
+export function formatCsv(columns: string[], records: CsvRecord[]): string {
+  const rows = [columns, ...records.map((record) => columns.map((column) => record[column] ?? ''))];
+  return rows.map((cells) => cells.map(escapeCsvField).join(',')).join('\r\n');
+}
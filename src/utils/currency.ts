@@ -0,0 +1,87 @@
+import { exchangeRates } from "../data/exchangeRates";
+
+// Every model (backend, calibrated fallback, in-browser) is trained on
+// Melbourne sale prices, so predictions are always in this currency
+export const MODEL_CURRENCY = "AUD";
+
+export const supportedCurrencies = Object.keys(exchangeRates.rates);
+
+export const supportedLocales: Record<string, string> = {
+  "en-AU": "English (Australia)",
+  "en-US": "English (United States)",
+  "en-GB": "English (United Kingdom)",
+  "de-DE": "Deutsch",
+  "fr-FR": "Français",
+  "ja-JP": "日本語",
+  "zh-CN": "中文",
+  "hi-IN": "हिन्दी",
+};
+
+export interface CurrencyDisplay {
+  currency: string;
+  locale: string;
+}
+
+export const defaultCurrencyDisplay: CurrencyDisplay = {
+  currency: MODEL_CURRENCY,
+  locale: "en-AU",
+};
+
+// Units of the display currency per unit of the model currency
+export function getExchangeRate(currency: string): number {
+  const rate = exchangeRates.rates[currency];
+  if (rate === undefined) {
+    console.warn(`No exchange rate for ${currency}; showing ${MODEL_CURRENCY}`);
+    return 1;
+  }
+  return rate;
+}
+
+export function convertFromModelCurrency(amount: number, currency: string): number {
+  return amount * getExchangeRate(currency);
+}
+
+// Currencies without a rate are shown in the model currency
+const resolveCurrency = (display: CurrencyDisplay): string =>
+  exchangeRates.rates[display.currency] === undefined ? MODEL_CURRENCY : display.currency;
+
+// Format an amount given in the model currency in the chosen display currency
+export function formatPrice(price: number, display: CurrencyDisplay = defaultCurrencyDisplay): string {
+  const currency = resolveCurrency(display);
+  const formatter = new Intl.NumberFormat(display.locale, {
+    style: 'currency',
+    currency,
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0
+  });
+
+  if (!Number.isFinite(price)) {
+    console.warn('Attempted to format non-numeric price:', price);
+    return formatter.format(0);
+  }
+  return formatter.format(convertFromModelCurrency(price, currency));
+}
+
+// Short form for chart axes and tight spaces, e.g. "$1.2M"
+export function formatCompactPrice(price: number, display: CurrencyDisplay = defaultCurrencyDisplay): string {
+  const currency = resolveCurrency(display);
+  return new Intl.NumberFormat(display.locale, {
+    style: 'currency',
+    currency,
+    notation: 'compact',
+    maximumFractionDigits: 1
+  }).format(Number.isFinite(price) ? convertFromModelCurrency(price, currency) : 0);
+}
+
+// Explains where a displayed price came from, e.g. for a footnote. Matches
+// the formatters, including their fallback to the model currency.
+export function describeCurrencySource(display: CurrencyDisplay): string {
+  const currency = resolveCurrency(display);
+  if (currency === MODEL_CURRENCY) {
+    return display.currency === MODEL_CURRENCY
+      ? `Prices in ${MODEL_CURRENCY}, the model's native currency.`
+      : `Prices in ${MODEL_CURRENCY}, the model's native currency; no exchange rate is available for ${display.currency}.`;
+  }
+  const rate = getExchangeRate(currency);
+  return `Converted from ${MODEL_CURRENCY} at 1 ${MODEL_CURRENCY} = ${rate} ${currency} (rates as of ${exchangeRates.asOf}).`;
+}
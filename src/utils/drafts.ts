@@ -0,0 +1,79 @@
+import { HouseData, houseDataFields } from '../data/modelData';
+import { createId } from './ids';
+
+// Form drafts kept in localStorage: one autosaved draft of the estimate form,
+// plus any number of drafts the user saved under a name.
+
+export const AUTOSAVE_STORAGE_KEY = 'cozy-quarters:draft';
+export const NAMED_DRAFTS_STORAGE_KEY = 'cozy-quarters:drafts';
+
+// Values may be incomplete while the user is still typing
+export type DraftValues = Partial<HouseData>;
+
+export interface Draft {
+  values: DraftValues;
+  savedAt: number;
+}
+
+export interface NamedDraft extends Draft {
+  id: string;
+  name: string;
+}
+
+function readJson<T>(key: string): T | null {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) as T : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeJson(key: string, value: unknown): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    // Storage can be full or disabled (e.g. private browsing); drafts are best effort
+    console.warn(`Could not save ${key}:`, error);
+  }
+}
+
+export function sameDraftValues(a: DraftValues, b: DraftValues): boolean {
+  return houseDataFields.every((field) => (a[field] ?? null) === (b[field] ?? null));
+}
+
+export function loadAutosave(): Draft | null {
+  return readJson<Draft>(AUTOSAVE_STORAGE_KEY);
+}
+
+export function saveAutosave(values: DraftValues): void {
+  writeJson(AUTOSAVE_STORAGE_KEY, { values, savedAt: Date.now() } satisfies Draft);
+}
+
+export function clearAutosave(): void {
+  try {
+    localStorage.removeItem(AUTOSAVE_STORAGE_KEY);
+  } catch (error) {
+    console.warn(`Could not clear ${AUTOSAVE_STORAGE_KEY}:`, error);
+  }
+}
+
+// Most recently saved first
+export function loadNamedDrafts(): NamedDraft[] {
+  const drafts = readJson<NamedDraft[]>(NAMED_DRAFTS_STORAGE_KEY);
+  return Array.isArray(drafts) ? drafts.sort((a, b) => b.savedAt - a.savedAt) : [];
+}
+
+// Saving under an existing name replaces that draft
+export function saveNamedDraft(name: string, values: DraftValues): NamedDraft[] {
+  const draft: NamedDraft = { id: createId(), name, values, savedAt: Date.now() };
+  const drafts = [draft, ...loadNamedDrafts().filter((existing) => existing.name !== name)];
+  writeJson(NAMED_DRAFTS_STORAGE_KEY, drafts);
+  return drafts;
+}
+
+export function deleteNamedDraft(id: string): NamedDraft[] {
+  const drafts = loadNamedDrafts().filter((draft) => draft.id !== id);
+  writeJson(NAMED_DRAFTS_STORAGE_KEY, drafts);
+  return drafts;
+}
@@ -0,0 +1,60 @@
+import { FeatureImportance, featureImportances, propertyTypeLabels } from '../data/modelData';
+
+// The trained model reports one importance per encoded column, so each
+// suburb and property type is its own "neighborhood_Kew"-style column.
+// These helpers fold them back into the form's features.
+
+// Categorical features the backend one-hot encodes
+const ONE_HOT_FEATURES = ['neighborhood', 'propertyType'] as const;
+
+const displayNames: Record<string, string> = {
+  ...Object.fromEntries(featureImportances.map(({ feature, displayName }) => [feature, displayName])),
+  propertyType: "Property Type",
+};
+
+export function featureDisplayName(feature: string): string {
+  return displayNames[feature] ?? feature;
+}
+
+export interface RawFeatureImportance {
+  feature: string;
+  importance: number;
+}
+
+export interface FeatureImportanceBreakdown extends FeatureImportance {
+  // The one-hot columns behind a categorical feature, most important first
+  children: FeatureImportance[];
+}
+
+function childDisplayName(parent: string, category: string): string {
+  return parent === 'propertyType' ? propertyTypeLabels[category] ?? category : category;
+}
+
+// Sum one-hot columns into their parent feature, most important feature first
+export function aggregateFeatureImportances(raw: RawFeatureImportance[]): FeatureImportanceBreakdown[] {
+  const grouped = new Map<string, FeatureImportanceBreakdown>();
+
+  raw.forEach(({ feature, importance }) => {
+    const parent = ONE_HOT_FEATURES.find((name) => feature.startsWith(`${name}_`)) ?? feature;
+    const entry = grouped.get(parent) ?? {
+      feature: parent,
+      importance: 0,
+      displayName: featureDisplayName(parent),
+      children: [],
+    };
+    entry.importance += importance;
+    if (parent !== feature) {
+      const category = feature.slice(parent.length + 1);
+      entry.children.push({ feature: category, importance, displayName: childDisplayName(parent, category) });
+    }
+    grouped.set(parent, entry);
+  });
+
+  const entries = [...grouped.values()];
+  entries.forEach((entry) => entry.children.sort((a, b) => b.importance - a.importance));
+  return entries.sort((a, b) => b.importance - a.importance);
+}
+
+// Illustrative values for when the backend cannot be reached
+export const staticFeatureImportances: FeatureImportanceBreakdown[] =
+  featureImportances.map((entry) => ({ ...entry, children: [] }));
@@ -0,0 +1,25 @@
+// Subsequence matching for type-ahead search, e.g. "sth yra" matches "South Yarra".
+// Returns null when `query` does not match; otherwise a score where higher is
+// better. Matches at word starts, consecutive runs and prefixes score more.
+export function fuzzyScore(query: string, text: string): number | null {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  if (!needle) return 0;
+  const haystack = text.toLowerCase();
+
+  let score = 0;
+  let position = 0;
+  let run = 0;
+  for (const char of needle) {
+    const found = haystack.indexOf(char, position);
+    if (found === -1) return null;
+
+    const atWordStart = found === 0 || /[\s\-']/.test(haystack[found - 1]);
+    run = found === position ? run + 1 : 0;
+    score += 1 + (atWordStart ? 3 : 0) + run * 2;
+    position = found + 1;
+  }
+
+  if (haystack.startsWith(query.toLowerCase().trim())) score += 10;
+  // Prefer shorter names among equally good matches
+  return score - haystack.length * 0.01;
+}
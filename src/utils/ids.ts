@@ -0,0 +1,6 @@
+// Ids for records kept in browser storage. The counter keeps ids made in the
+// same millisecond apart; the random part keeps ids from other tabs apart.
+let counter = 0;
+
+export const createId = () =>
+  `${Date.now().toString(36)}-${(counter++).toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
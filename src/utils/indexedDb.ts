@@ -0,0 +1,70 @@
+// Thin promise wrapper around the app's IndexedDB database
+
+const DB_NAME = 'cozy-quarters';
+const DB_VERSION = 2;
+
+// Object stores and their key paths. Bump DB_VERSION when adding one.
+const STORES = {
+  browserModels: 'id',
+  predictionHistory: 'id',
+} as const;
+
+// Store names as literals, so a misspelled one does not type-check
+export type StoreName = keyof typeof STORES;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        Object.entries(STORES).forEach(([name, keyPath]) => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath });
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later retry if opening failed
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+async function runRequest<T>(store: StoreName, mode: IDBTransactionMode, run: (objectStore: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(store, mode);
+    const request = run(transaction.objectStore(store));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export function getRecord<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return runRequest(store, 'readonly', (objectStore) => objectStore.get(key));
+}
+
+export function getAllRecords<T>(store: StoreName): Promise<T[]> {
+  return runRequest(store, 'readonly', (objectStore) => objectStore.getAll());
+}
+
+export async function putRecord<T>(store: StoreName, value: T): Promise<void> {
+  await runRequest(store, 'readwrite', (objectStore) => objectStore.put(value));
+}
+
+export async function deleteRecord(store: StoreName, key: IDBValidKey): Promise<void> {
+  await runRequest(store, 'readwrite', (objectStore) => objectStore.delete(key));
+}
@@ -1,153 +1,257 @@
-import { HouseData } from "../data/modelData";
+import { ZodTypeAny } from "zod";
+import { HouseData, PredictionConfidence, PriceEstimate, PriceExplanation, PriceRange } from "../data/modelData";
+import { fallbackModel } from "../data/fallbackModel";
+import { toModelUnits } from "./units";
+import { explainWithActiveBrowserModel, getActiveBrowserModel, predictWithActiveBrowserModel } from "./browserModelStore";
+import { RawFeatureImportance } from "./featureImportance";
 
-const API_URL = "http://localhost:5000";
+import { ApiResult } from "./api";
+import { API_ENDPOINTS, ApiRequestOptions, apiClient } from "./apiClient";
+import {
+  ModelStatusResponse,
+  batchPredictionResponseSchema,
+  featureImportancesResponseSchema,
+  houseDataSchema,
+  modelStatusResponseSchema,
+  neighborhoodsResponseSchema,
+  predictionResponseSchema,
+  propertyTypesResponseSchema
+} from "./schemas";
 
 // Check if backend model is loaded and ready
-export async function checkModelStatus(): Promise<{ trained: boolean; modelPath: string | null }> {
-  try {
-    const response = await fetch(`${API_URL}/api/model/status`, {
-      method: 'GET',
-      mode: 'cors',
-      headers: {
-        'Accept': 'application/json'
-      }
-    });
-
-    if (!response.ok) {
-      throw new Error(`API status check failed with status ${response.status}`);
+export async function checkModelStatus(options?: ApiRequestOptions): Promise<ApiResult<ModelStatusResponse>> {
+  const result = await apiClient.get(API_ENDPOINTS.modelStatus, modelStatusResponseSchema, options);
+  if (result.status === 'error') {
+    console.error('Error checking model status:', result.error);
+  }
+  return result;
+}
+
+// Catch bad input here rather than as an opaque 400 from the backend
+function validatePredictionInput(data: HouseData, schema: ZodTypeAny = houseDataSchema): ApiResult<never> | null {
+  const parsed = schema.safeParse(data);
+  return parsed.success ? null : {
+    status: 'error',
+    error: { kind: 'invalid-request', message: 'Invalid property details', issues: parsed.error.issues }
+  };
+}
+
+// Request body for one property
+function toPredictionRequest(data: HouseData) {
+  // The backend model is trained on square metres (BuildingArea, Landsize)
+  const { buildingArea, landsize } = toModelUnits(data);
+
+  return {
+    squareFootage: buildingArea,
+    bedrooms: data.bedrooms,
+    bathrooms: data.bathrooms,
+    yearBuilt: data.yearBuilt,
+    neighborhood: data.neighborhood,
+    propertyType: data.propertyType ?? 'h',
+    lotSize: landsize,
+    garage: data.garage,
+    basement: data.basement,
+    centralAir: data.centralAir,
+    kitchenQuality: data.kitchenQuality
+  };
+}
+
+export interface PredictionRequestOptions extends ApiRequestOptions {
+  // What the input is checked against; the form's ranges unless given, e.g.
+  // datasetHouseDataSchema for rows imported from melb_data.csv
+  inputSchema?: ZodTypeAny;
+}
+
+export interface ApiPrediction {
+  price: number;
+  range: PriceRange | null;
+  confidence: PredictionConfidence | null;
+  explanation: PriceExplanation | null;
+}
+
+export async function predictPriceFromAPI(
+  data: HouseData,
+  { inputSchema, ...options }: PredictionRequestOptions = {}
+): Promise<ApiResult<ApiPrediction>> {
+  console.log('Sending data to backend:', JSON.stringify(data, null, 2));
+
+  const invalid = validatePredictionInput(data, inputSchema);
+  if (invalid) return invalid;
+
+  const result = await apiClient.post(API_ENDPOINTS.predict, toPredictionRequest(data), predictionResponseSchema, options);
+
+  if (result.status === 'error') {
+    console.error("Error in predictPriceFromAPI:", result.error);
+    return result;
+  }
+
+  console.log('Received prediction:', result.data);
+  // Older backends return only the price, so the rest may be missing
+  const { prediction, baseline, contributions, interval, confidence } = result.data;
+  return {
+    status: 'success',
+    data: {
+      price: prediction,
+      range: interval
+        ? { low: Math.round(interval.low), high: Math.round(interval.high), level: interval.level }
+        : null,
+      confidence: confidence ?? null,
+      explanation: baseline !== undefined && contributions
+        ? { baseline, contributions: contributions as PriceExplanation['contributions'] }
+        : null
     }
+  };
+}
+
+// Backend limit on rows per /api/predict/batch request
+export const MAX_BATCH_PREDICTION_ROWS = 200;
 
-    return await response.json();
-  } catch (error) {
-    console.error('Error checking model status:', error);
-    return { trained: false, modelPath: null };
+// One /api/predict/batch request for at most MAX_BATCH_PREDICTION_ROWS rows
+async function predictChunkFromAPI(rows: HouseData[], options?: ApiRequestOptions): Promise<ApiResult<number[]>> {
+  const result = await apiClient.post(
+    API_ENDPOINTS.predictBatch,
+    { rows: rows.map(toPredictionRequest) },
+    batchPredictionResponseSchema,
+    options
+  );
+
+  if (result.status === 'error') {
+    console.error("Error in predictPricesFromAPI:", result.error);
+    return result;
+  }
+  if (result.data.predictions.length !== rows.length) {
+    const message = `Expected ${rows.length} predictions, got ${result.data.predictions.length}`;
+    return {
+      status: 'error',
+      error: { kind: 'invalid-payload', message, issues: [{ code: 'custom', path: ['predictions'], message }] }
+    };
   }
+  return { status: 'success', data: result.data.predictions };
 }
 
-export async function predictPriceFromAPI(data: HouseData): Promise<number | null> {
-  try {
-    console.log('Sending data to backend:', JSON.stringify(data, null, 2));
-    
-    const response = await fetch(`${API_URL}/api/predict`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json'
-      },
-      body: JSON.stringify({
-        squareFootage: data.squareFootage,
-        bedrooms: data.bedrooms,
-        bathrooms: data.bathrooms,
-        yearBuilt: data.yearBuilt,
-        neighborhood: data.neighborhood,
-        lotSize: data.lotSize,
-        garage: data.garage,
-        basement: data.basement,
-        centralAir: data.centralAir,
-        kitchenQuality: data.kitchenQuality
-      }),
-      mode: 'cors',
-      credentials: 'same-origin'
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json().catch(() => ({}));
-      console.error("API Error:", {
-        status: response.status,
-        statusText: response.statusText,
-        error: errorData
-      });
-      throw new Error(errorData.error || `API request failed with status ${response.status}`);
-    }
+// Price several properties, in as few requests as the backend's row limit
+// allows; prices come back in input order. Fails as a whole if any request does.
+export async function predictPricesFromAPI(rows: HouseData[], options?: ApiRequestOptions): Promise<ApiResult<number[]>> {
+  for (const data of rows) {
+    const invalid = validatePredictionInput(data);
+    if (invalid) return invalid;
+  }
 
-    const result = await response.json();
-    console.log('Received prediction:', result);
-    return result.prediction;
-  } catch (error) {
-    console.error("Error in predictPriceFromAPI:", error);
-    return null;
+  const prices: number[] = [];
+  for (let start = 0; start < rows.length; start += MAX_BATCH_PREDICTION_ROWS) {
+    const result = await predictChunkFromAPI(rows.slice(start, start + MAX_BATCH_PREDICTION_ROWS), options);
+    if (result.status === 'error') return result;
+    prices.push(...result.data);
   }
+  return { status: 'success', data: prices };
 }
 
-export function predictPrice(data: HouseData): number {
-  // Enhanced fallback function with more realistic calculations
-  const BASE_PRICE = 150000;
-  const PRICE_PER_SQFT = 100;
-  const BEDROOM_VALUE = 15000;
-  const BATHROOM_VALUE = 20000;
-  const YEAR_MULTIPLIER = 500;
-  const BASE_YEAR = 1950;
-  const LOT_SIZE_VALUE = 100000;
-  const GARAGE_VALUE = 10000;
-  const BASEMENT_VALUE = 20000;
-  const CENTRAL_AIR_VALUE = 15000;
-  const KITCHEN_QUALITY_MULTIPLIER = 10000;
-
-  const neighborhoodFactors: Record<string, number> = {
-    "Downtown": 1.2,
-    "Suburban Heights": 1.1,
-    "Riverside": 1.15,
-    "West End": 0.95,
-    "North Hills": 1.05,
-    "Oak Park": 1.0,
-    "Maplewood": 0.9,
-    "Cedar Ridge": 1.1,
-    "Brookside": 1.05,
-    "Highland Park": 1.2
-  };
+export async function fetchNeighborhoods(options?: ApiRequestOptions): Promise<ApiResult<string[]>> {
+  const result = await apiClient.get(API_ENDPOINTS.neighborhoods, neighborhoodsResponseSchema, options);
+  return result.status === 'success' ? { status: 'success', data: result.data.neighborhoods } : result;
+}
 
-  // Calculate components separately for better debugging
-  const sqftValue = data.squareFootage * PRICE_PER_SQFT;
-  const bedroomValue = data.bedrooms * BEDROOM_VALUE;
-  const bathroomValue = data.bathrooms * BATHROOM_VALUE;
-  const yearValue = (data.yearBuilt - BASE_YEAR) * YEAR_MULTIPLIER;
-  const neighborhoodFactor = neighborhoodFactors[data.neighborhood] || 1.0;
-  const lotSizeValue = data.lotSize * LOT_SIZE_VALUE;
-  const garageValue = data.garage * GARAGE_VALUE;
-  const basementValue = data.basement ? BASEMENT_VALUE : 0;
-  const centralAirValue = data.centralAir ? CENTRAL_AIR_VALUE : 0;
-  const kitchenQualityValue = (data.kitchenQuality - 1) * KITCHEN_QUALITY_MULTIPLIER;
+export async function fetchPropertyTypes(options?: ApiRequestOptions): Promise<ApiResult<string[]>> {
+  const result = await apiClient.get(API_ENDPOINTS.propertyTypes, propertyTypesResponseSchema, options);
+  return result.status === 'success' ? { status: 'success', data: result.data.propertyTypes } : result;
+}
+
+export async function fetchFeatureImportances(options?: ApiRequestOptions): Promise<ApiResult<RawFeatureImportance[]>> {
+  const result = await apiClient.get(API_ENDPOINTS.featureImportances, featureImportancesResponseSchema, options);
+  return result.status === 'success'
+    ? { status: 'success', data: result.data.featureImportances as RawFeatureImportance[] }
+    : result;
+}
 
-  let predictedPrice = BASE_PRICE + sqftValue + bedroomValue + bathroomValue + 
-                      yearValue + lotSizeValue + garageValue + 
-                      basementValue + centralAirValue + kitchenQualityValue;
+// Features the Melbourne dataset does not record, priced as small fixed premiums
+const BASEMENT_VALUE = 20000;
+const CENTRAL_AIR_VALUE = 15000;
+const KITCHEN_QUALITY_VALUE = 10000; // per point above an average (3/5) kitchen
 
-  // Apply neighborhood factor
-  predictedPrice *= neighborhoodFactor;
+// Never price below this share of the suburb baseline, however unusual the inputs
+const MIN_PRICE_RATIO = 0.2;
+// Explanation entry for the amount the minimum price added
+export const PRICE_FLOOR_FEATURE = 'priceFloor';
 
-  // Add realistic market variation (5-10%)
-  const marketVariation = 0.95 + Math.random() * 0.1;
-  predictedPrice *= marketVariation;
+// Deterministic fallback estimate: the model trained in this browser when
+// there is one, otherwise the calibrated linear model. Market variation is
+// expressed as a low/high band from the model's typical error, not noise.
+export function predictPrice(data: HouseData): PriceEstimate {
+  const browserModel = getActiveBrowserModel();
+  if (browserModel) {
+    const price = predictWithActiveBrowserModel(data);
+    const variation = browserModel.metrics.typicalRelativeError;
+    return {
+      price: Math.round(price),
+      low: Math.round(price * (1 - variation)),
+      high: Math.round(price * (1 + variation)),
+      explanation: explainWithActiveBrowserModel(data)
+    };
+  }
 
-  return Math.round(predictedPrice);
+  return predictCalibratedPrice(data);
 }
 
-export function formatPrice(price: number): string {
-  if (isNaN(price)) {
-    console.warn('Attempted to format non-numeric price:', price);
-    return "$0";
+// Calibrated on the Melbourne dataset (see src/data/fallbackModel.ts): the
+// suburb's median sale price scaled by per-feature factors fitted on log
+// price. The explanation starts from a median property in a median-priced
+// suburb and applies each factor in turn, so the contributions add up.
+function predictCalibratedPrice(data: HouseData): PriceEstimate {
+  const { coefficients, featureMedians } = fallbackModel;
+
+  // The model is fitted on square metres
+  const { buildingArea, landsize } = toModelUnits(data);
+
+  const baselinePrice = fallbackModel.suburbMedianPrices[data.neighborhood] ?? fallbackModel.overallMedianPrice;
+
+  // Terms in the log price, relative to a median house in a median-priced suburb
+  const logTerms = [
+    { feature: 'neighborhood', term: Math.log(baselinePrice / fallbackModel.overallMedianPrice) },
+    { feature: 'squareFootage', term: (buildingArea - featureMedians.buildingArea) * coefficients.buildingArea },
+    { feature: 'bedrooms', term: (data.bedrooms - featureMedians.bedrooms) * coefficients.bedrooms },
+    { feature: 'bathrooms', term: (data.bathrooms - featureMedians.bathrooms) * coefficients.bathrooms },
+    { feature: 'yearBuilt', term: (data.yearBuilt - featureMedians.yearBuilt) * coefficients.yearBuilt },
+    { feature: 'lotSize', term: (landsize - featureMedians.landsize) * coefficients.landsize },
+    { feature: 'garage', term: (data.garage - featureMedians.garage) * coefficients.garage },
+    { feature: 'propertyType', term: fallbackModel.propertyTypeEffects[data.propertyType ?? 'h'] ?? 0 },
+  ];
+  const basementValue = data.basement ? BASEMENT_VALUE : 0;
+  const centralAirValue = data.centralAir ? CENTRAL_AIR_VALUE : 0;
+  const kitchenQualityValue = ((data.kitchenQuality ?? 3) - 3) * KITCHEN_QUALITY_VALUE;
+
+  const baseline = fallbackModel.overallMedianPrice * Math.exp(fallbackModel.intercept);
+  let logPrice = Math.log(baseline);
+  const contributions = logTerms.map(({ feature, term }) => {
+    const before = Math.exp(logPrice);
+    logPrice += term;
+    return { feature, contribution: Math.exp(logPrice) - before };
+  });
+  contributions.push(
+    { feature: 'basement', contribution: basementValue },
+    { feature: 'centralAir', contribution: centralAirValue },
+    { feature: 'kitchenQuality', contribution: kitchenQualityValue },
+  );
+
+  const unclampedPrice = Math.exp(logPrice) + basementValue + centralAirValue + kitchenQualityValue;
+  const predictedPrice = Math.max(unclampedPrice, baselinePrice * MIN_PRICE_RATIO);
+  if (predictedPrice > unclampedPrice) {
+    contributions.push({ feature: PRICE_FLOOR_FEATURE, contribution: predictedPrice - unclampedPrice });
   }
-  return new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: 'USD',
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0
-  }).format(price);
+
+  const variation = fallbackModel.typicalRelativeError;
+  return {
+    price: Math.round(predictedPrice),
+    low: Math.round(predictedPrice * (1 - variation)),
+    high: Math.round(predictedPrice * (1 + variation)),
+    explanation: { baseline, contributions }
+  };
 }
 
 // Utility function for API health check
 export async function checkAPIHealth(): Promise<boolean> {
-  try {
-    const response = await fetch(`${API_URL}/api/model/status`, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json'
-      },
-      mode: 'cors'
-    });
-    return response.ok;
-  } catch (error) {
-    console.error('API health check failed:', error);
-    return false;
+  const result = await apiClient.get(API_ENDPOINTS.modelStatus, modelStatusResponseSchema, { retry: false });
+  if (result.status === 'error') {
+    console.error('API health check failed:', result.error);
   }
-}
\ No newline at end of file
+  return result.status === 'success';
+}
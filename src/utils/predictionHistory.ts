@@ -0,0 +1,39 @@
+import { HouseData, PriceRange } from '../data/modelData';
+import { createId } from './ids';
+import { deleteRecord, getAllRecords, putRecord } from './indexedDb';
+
+// Backend model state at the time of a prediction
+export type BackendModelStatus = 'trained' | 'untrained' | 'unavailable';
+
+// Local estimator that produced a fallback price
+export type FallbackModelKind = 'browser' | 'calibrated';
+
+// One saved prediction. Prices are in the model currency (AUD).
+export interface PredictionRecord {
+  id: string;
+  createdAt: number;
+  input: HouseData;
+  price: number;
+  range: PriceRange | null;
+  source: 'API' | 'fallback';
+  modelStatus: BackendModelStatus;
+  fallbackModel: FallbackModelKind | null;
+}
+
+const STORE = 'predictionHistory';
+
+export async function savePrediction(entry: Omit<PredictionRecord, 'id' | 'createdAt'>): Promise<PredictionRecord> {
+  const record: PredictionRecord = { ...entry, id: createId(), createdAt: Date.now() };
+  await putRecord<PredictionRecord>(STORE, record);
+  return record;
+}
+
+// Newest first
+export async function loadPredictionHistory(): Promise<PredictionRecord[]> {
+  const records = await getAllRecords<PredictionRecord>(STORE);
+  return records.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export async function deletePrediction(id: string): Promise<void> {
+  await deleteRecord(STORE, id);
+}
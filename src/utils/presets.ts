@@ -0,0 +1,63 @@
+import { HouseData } from '../data/modelData';
+import { PresetFile, houseDataSchema, presetFileSchema } from './schemas';
+
+// Named, complete sets of house details the user saved for reuse.
+// Unlike drafts they are always valid, and can be shared as JSON files.
+
+export const PRESETS_STORAGE_KEY = 'cozy-quarters:presets';
+
+export interface Preset {
+  name: string;
+  values: HouseData;
+}
+
+// Sorted by name
+export function loadPresets(): Preset[] {
+  try {
+    const stored = localStorage.getItem(PRESETS_STORAGE_KEY);
+    const presets: Preset[] = stored ? JSON.parse(stored) : [];
+    return Array.isArray(presets) ? presets.sort((a, b) => a.name.localeCompare(b.name)) : [];
+  } catch {
+    return [];
+  }
+}
+
+function storePresets(presets: Preset[]): Preset[] {
+  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
+  return loadPresets();
+}
+
+// Presets with the same name are replaced
+export function savePresets(added: Preset[]): Preset[] {
+  const names = new Set(added.map((preset) => preset.name));
+  return storePresets([...loadPresets().filter((preset) => !names.has(preset.name)), ...added]);
+}
+
+export function deletePreset(name: string): Preset[] {
+  return storePresets(loadPresets().filter((preset) => preset.name !== name));
+}
+
+export function formatPresetFile(presets: Preset[]): string {
+  const file: PresetFile = { version: 1, presets };
+  return JSON.stringify(file, null, 2);
+}
+
+// Parse an exported file; entries with invalid details are skipped and named in `rejected`
+export function parsePresetFile(text: string): { presets: Preset[]; rejected: string[] } {
+  const parsed = presetFileSchema.safeParse(JSON.parse(text));
+  if (!parsed.success) {
+    throw new Error('Not a presets file exported from this app');
+  }
+
+  const presets: Preset[] = [];
+  const rejected: string[] = [];
+  parsed.data.presets.forEach(({ name, values }) => {
+    const checked = houseDataSchema.safeParse(values);
+    if (checked.success) {
+      presets.push({ name, values: checked.data as HouseData });
+    } else {
+      rejected.push(name);
+    }
+  });
+  return { presets, rejected };
+}
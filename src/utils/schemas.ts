@@ -0,0 +1,135 @@
+import { z } from "zod";
+
+import { houseDataLimits as limits } from "../data/modelData";
+
+// Response contracts for the Flask backend (backend/app.py).
+// Keep these in sync when the response shape of an endpoint changes.
+
+// Contributions are per input field and add up to prediction - baseline
+export const predictionResponseSchema = z.object({
+  prediction: z.number().finite(),
+  baseline: z.number().finite().optional(),
+  contributions: z.array(z.object({
+    feature: z.string(),
+    contribution: z.number().finite(),
+  })).optional(),
+  // Spread of the random forest's per-tree predictions
+  interval: z.object({
+    low: z.number().finite(),
+    high: z.number().finite(),
+    level: z.number().gt(0).lt(1),
+  }).optional(),
+  confidence: z.enum(['high', 'medium', 'low']).optional(),
+  status: z.string().optional(),
+});
+
+// One prediction per requested row, in request order
+export const batchPredictionResponseSchema = z.object({
+  predictions: z.array(z.number().finite()),
+  status: z.string().optional(),
+});
+
+export const modelStatusResponseSchema = z.object({
+  trained: z.boolean(),
+  status: z.string().optional(),
+});
+
+export const neighborhoodsResponseSchema = z.object({
+  neighborhoods: z.array(z.string()),
+  status: z.string().optional(),
+});
+
+export const propertyTypesResponseSchema = z.object({
+  propertyTypes: z.array(z.string()),
+  status: z.string().optional(),
+});
+
+// One entry per encoded model column, e.g. "bedrooms" or "neighborhood_Kew"
+export const featureImportancesResponseSchema = z.object({
+  featureImportances: z.array(z.object({
+    feature: z.string(),
+    importance: z.number().finite().nonnegative(),
+  })),
+  status: z.string().optional(),
+});
+
+// Property details as entered in the form and sent to /api/predict.
+// Areas are checked in HouseData units, so their messages avoid naming a unit.
+
+const requiredNumber = (label: string) =>
+  z.number({
+    required_error: `${label} is required`,
+    invalid_type_error: `${label} must be a number`,
+  });
+
+const boundedNumber = (label: string, { min, max }: { min: number; max: number }) =>
+  requiredNumber(label)
+    .min(min, `${label} must be at least ${min}`)
+    .max(max, `${label} must be at most ${max}`);
+
+const boundedArea = (label: string, { min, max }: { min: number; max: number }) =>
+  requiredNumber(label)
+    .min(min, `${label} is below the accepted range`)
+    .max(max, `${label} is above the accepted range`);
+
+export const houseDataSchema = z
+  .object({
+    squareFootage: boundedArea("Floor area", limits.squareFootage),
+    bedrooms: boundedNumber("Bedrooms", limits.bedrooms).int("Bedrooms must be a whole number"),
+    bathrooms: boundedNumber("Bathrooms", limits.bathrooms).multipleOf(0.5, "Bathrooms must be in steps of 0.5"),
+    yearBuilt: requiredNumber("Year built")
+      .int("Year built must be a whole number")
+      .min(limits.yearBuilt.min, `Year built must be ${limits.yearBuilt.min} or later`)
+      .refine((year) => year <= new Date().getFullYear(), "Year built cannot be in the future"),
+    neighborhood: z.string({ required_error: "Select a neighborhood" }).min(1, "Select a neighborhood"),
+    lotSize: boundedArea("Lot size", limits.lotSize),
+    garage: boundedNumber("Garage spaces", limits.garage).int("Garage spaces must be a whole number"),
+    propertyType: z.string().optional(),
+    basement: z.boolean().optional(),
+    centralAir: z.boolean().optional(),
+    kitchenQuality: boundedNumber("Kitchen quality", limits.kitchenQuality).int().optional(),
+  })
+  .superRefine((data, ctx) => {
+    if (data.bathrooms > data.bedrooms + 2) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["bathrooms"],
+        message: `At most ${data.bedrooms + 2} bathrooms for ${data.bedrooms} bedrooms`,
+      });
+    }
+  });
+
+const nonNegativeNumber = (label: string) =>
+  requiredNumber(label).nonnegative(`${label} cannot be negative`);
+
+// Rows imported in the melb_data.csv layout. The form's ranges are narrower
+// than the dataset, which has units with no land, more car spaces than the
+// form offers and a few implausible build years, so only values the model
+// cannot use are rejected.
+export const datasetHouseDataSchema = houseDataSchema.innerType().extend({
+  squareFootage: nonNegativeNumber("Floor area"),
+  bedrooms: nonNegativeNumber("Bedrooms").int("Bedrooms must be a whole number"),
+  bathrooms: nonNegativeNumber("Bathrooms").multipleOf(0.5, "Bathrooms must be in steps of 0.5"),
+  yearBuilt: requiredNumber("Year built")
+    .int("Year built must be a whole number")
+    .refine((year) => year <= new Date().getFullYear(), "Year built cannot be in the future"),
+  lotSize: nonNegativeNumber("Lot size"),
+  garage: nonNegativeNumber("Garage spaces").int("Garage spaces must be a whole number"),
+});
+
+// Presets exported to and imported from JSON files
+export const presetFileSchema = z.object({
+  version: z.literal(1),
+  presets: z.array(z.object({
+    name: z.string().trim().min(1),
+    values: z.unknown(),
+  })),
+});
+
+export type PredictionResponse = z.infer<typeof predictionResponseSchema>;
+export type BatchPredictionResponse = z.infer<typeof batchPredictionResponseSchema>;
+export type ModelStatusResponse = z.infer<typeof modelStatusResponseSchema>;
+export type NeighborhoodsResponse = z.infer<typeof neighborhoodsResponseSchema>;
+export type PropertyTypesResponse = z.infer<typeof propertyTypesResponseSchema>;
+export type FeatureImportancesResponse = z.infer<typeof featureImportancesResponseSchema>;
+export type PresetFile = z.infer<typeof presetFileSchema>;
@@ -0,0 +1,98 @@
+import { HouseData, houseDataLimits } from '../data/modelData';
+import { houseDataSchema } from './schemas';
+import {
+  UnitSystem,
+  floorAreaFromDisplay,
+  floorAreaInputs,
+  floorAreaToDisplay,
+  lotSizeFromDisplay,
+  lotSizeInputs,
+  lotSizeToDisplay
+} from './units';
+
+// What-if sweeps: one numeric field stepped across its accepted range while
+// every other detail stays as entered.
+
+export const SENSITIVITY_FIELDS = [
+  'squareFootage', 'bedrooms', 'bathrooms', 'lotSize', 'yearBuilt', 'garage', 'kitchenQuality'
+] as const;
+
+export type SensitivityField = typeof SENSITIVITY_FIELDS[number];
+
+// Roughly how many values a sweep covers; small integer ranges use every value
+const TARGET_POINTS = 25;
+
+export interface SweepPoint {
+  // In HouseData units, as sent for prediction
+  value: number;
+  // In the units the user sees
+  displayValue: number;
+  isCurrent: boolean;
+}
+
+interface SweepRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+// Accepted range and input step, in display units
+function sweepRange(field: SensitivityField, system: UnitSystem): SweepRange {
+  switch (field) {
+    case 'squareFootage':
+      return floorAreaInputs[system];
+    case 'lotSize':
+      return lotSizeInputs[system];
+    case 'yearBuilt':
+      return { ...houseDataLimits.yearBuilt, max: new Date().getFullYear() };
+    default:
+      return houseDataLimits[field];
+  }
+}
+
+export function toDisplayValue(field: SensitivityField, value: number, system: UnitSystem): number {
+  if (field === 'squareFootage') return floorAreaToDisplay(value, system);
+  if (field === 'lotSize') return lotSizeToDisplay(value, system);
+  return value;
+}
+
+function fromDisplayValue(field: SensitivityField, value: number, system: UnitSystem): number {
+  if (field === 'squareFootage') return floorAreaFromDisplay(value, system);
+  if (field === 'lotSize') return lotSizeFromDisplay(value, system);
+  return value;
+}
+
+// The smallest 1, 2, 2.5 or 5 × 10^n interval at least `raw`, as a multiple of `step`
+function niceInterval(raw: number, step: number): number {
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const nice = [1, 2, 2.5, 5, 10].map((factor) => factor * magnitude).find((interval) => interval >= raw);
+  return Math.max(step, Math.ceil(nice / step - 1e-9) * step);
+}
+
+const decimalsOf = (step: number) => step.toString().split('.')[1]?.length ?? 0;
+
+// Sweep values from the field's minimum to its maximum on round numbers,
+// plus the current value. Values the other details rule out (e.g. more
+// bathrooms than bedrooms allow) are left out.
+export function sweepPoints(data: HouseData, field: SensitivityField, system: UnitSystem): SweepPoint[] {
+  const { min, max, step } = sweepRange(field, system);
+  const interval = niceInterval((max - min) / TARGET_POINTS, step);
+  const decimals = Math.max(decimalsOf(step), decimalsOf(interval));
+
+  const displayValues = new Set([min, max]);
+  for (let value = Math.ceil(min / interval - 1e-9) * interval; value < max; value += interval) {
+    displayValues.add(Number(value.toFixed(decimals)));
+  }
+
+  const current: SweepPoint = {
+    value: data[field],
+    displayValue: toDisplayValue(field, data[field], system),
+    isCurrent: true,
+  };
+  const points = [...displayValues]
+    .filter((displayValue) => displayValue !== current.displayValue)
+    .map((displayValue) => ({ value: fromDisplayValue(field, displayValue, system), displayValue, isCurrent: false }))
+    .filter(({ value }) => houseDataSchema.safeParse({ ...data, [field]: value }).success);
+
+  return [...points, current].sort((a, b) => a.displayValue - b.displayValue);
+}
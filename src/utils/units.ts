@@ -0,0 +1,76 @@
+import type { HouseData } from "../data/modelData";
+
+// HouseData stores floor area in square feet and lot size in acres. The
+// models are trained on square metres, and users may view either system.
+
+export const SQUARE_METRES_PER_SQUARE_FOOT = 0.09290304;
+export const SQUARE_METRES_PER_ACRE = 4046.8564224;
+
+export type UnitSystem = 'metric' | 'imperial';
+
+export interface AreaInput {
+  unit: string;
+  min: number;
+  max: number;
+  step: number;
+  // Decimal places shown for values in this unit
+  decimals: number;
+}
+
+export const unitSystemLabels: Record<UnitSystem, string> = {
+  metric: "Metric (m²)",
+  imperial: "Imperial (sq ft, acres)",
+};
+
+// Input ranges cover the same physical sizes in both systems, rounded
+// inwards so every displayed value is within houseDataLimits
+export const floorAreaInputs: Record<UnitSystem, AreaInput> = {
+  imperial: { unit: "sq ft", min: 500, max: 10000, step: 1, decimals: 0 },
+  metric: { unit: "m²", min: 47, max: 929, step: 1, decimals: 0 },
+};
+
+export const lotSizeInputs: Record<UnitSystem, AreaInput> = {
+  imperial: { unit: "acres", min: 0.1, max: 2, step: 0.01, decimals: 2 },
+  metric: { unit: "m²", min: 410, max: 8090, step: 10, decimals: 0 },
+};
+
+const round = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+export function floorAreaToDisplay(squareFeet: number, system: UnitSystem): number {
+  const value = system === 'metric' ? squareFeet * SQUARE_METRES_PER_SQUARE_FOOT : squareFeet;
+  return round(value, floorAreaInputs[system].decimals);
+}
+
+export function floorAreaFromDisplay(value: number, system: UnitSystem): number {
+  return system === 'metric' ? value / SQUARE_METRES_PER_SQUARE_FOOT : value;
+}
+
+export function lotSizeToDisplay(acres: number, system: UnitSystem): number {
+  const value = system === 'metric' ? acres * SQUARE_METRES_PER_ACRE : acres;
+  return round(value, lotSizeInputs[system].decimals);
+}
+
+export function lotSizeFromDisplay(value: number, system: UnitSystem): number {
+  return system === 'metric' ? value / SQUARE_METRES_PER_ACRE : value;
+}
+
+export function formatFloorArea(squareFeet: number, system: UnitSystem): string {
+  const input = floorAreaInputs[system];
+  return `${floorAreaToDisplay(squareFeet, system).toLocaleString(undefined, { maximumFractionDigits: input.decimals })} ${input.unit}`;
+}
+
+export function formatLotSize(acres: number, system: UnitSystem): string {
+  const input = lotSizeInputs[system];
+  return `${lotSizeToDisplay(acres, system).toLocaleString(undefined, { maximumFractionDigits: input.decimals })} ${input.unit}`;
+}
+
+// Areas in the units the models were trained on (BuildingArea and Landsize, m²)
+export function toModelUnits(data: HouseData): { buildingArea: number; landsize: number } {
+  return {
+    buildingArea: data.squareFootage * SQUARE_METRES_PER_SQUARE_FOOT,
+    landsize: data.lotSize * SQUARE_METRES_PER_ACRE,
+  };
+}
@@ -0,0 +1,49 @@
+import { HouseData, defaultHouseData, houseDataFields } from '../data/modelData';
+import { houseDataSchema } from './schemas';
+
+// House details in the query string use HouseData field names and units
+// (square feet, acres), whatever units the viewer has chosen.
+
+const TEXT_FIELDS: (keyof HouseData)[] = ['neighborhood', 'propertyType'];
+const BOOLEAN_FIELDS: (keyof HouseData)[] = ['basement', 'centralAir'];
+
+export function houseDataToSearchParams(data: HouseData): URLSearchParams {
+  const params = new URLSearchParams();
+  houseDataFields.forEach((field) => {
+    const value = data[field];
+    if (typeof value === 'number') {
+      // Areas entered in metric convert to long fractions of square feet and acres
+      params.set(field, String(Number(value.toFixed(4))));
+    } else if (value !== undefined && value !== null) {
+      params.set(field, String(value));
+    }
+  });
+  return params;
+}
+
+// Missing fields take their defaults; returns null when no field is present
+// or the result is not valid
+export function houseDataFromSearchParams(params: URLSearchParams): HouseData | null {
+  const present = houseDataFields.filter((field) => params.has(field));
+  if (present.length === 0) return null;
+
+  const values: Record<string, unknown> = { ...defaultHouseData };
+  present.forEach((field) => {
+    const raw = params.get(field);
+    if (TEXT_FIELDS.includes(field)) values[field] = raw;
+    else if (BOOLEAN_FIELDS.includes(field)) values[field] = raw === 'true';
+    else values[field] = raw === '' ? undefined : Number(raw);
+  });
+
+  const parsed = houseDataSchema.safeParse(values);
+  if (!parsed.success) {
+    console.warn('Ignoring invalid house details in the URL:', parsed.error.issues);
+    return null;
+  }
+  return parsed.data as HouseData;
+}
+
+// Absolute link to the estimate page with these details filled in
+export function buildShareUrl(data: HouseData): string {
+  return `${window.location.origin}/?${houseDataToSearchParams(data)}`;
+}
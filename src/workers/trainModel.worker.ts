@@ -0,0 +1,25 @@
+import { BrowserModelParams, trainBrowserModel } from '../utils/browserModel';
+
+export interface TrainModelRequest {
+  csvText: string;
+  source: string;
+}
+
+export type TrainModelMessage =
+  | { type: 'progress'; stage: string; fraction: number }
+  | { type: 'done'; params: BrowserModelParams }
+  | { type: 'error'; message: string };
+
+const post = (message: TrainModelMessage) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<TrainModelRequest>) => {
+  const { csvText, source } = event.data;
+  try {
+    const params = trainBrowserModel(csvText, source, (stage, fraction) => {
+      post({ type: 'progress', stage, fraction });
+    });
+    post({ type: 'done', params });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};